@@ -1,11 +1,22 @@
 import { defineConfig } from "bunup";
 
-export default defineConfig({
-    entry: ["src/index.ts"],
-    format: ["esm", "cjs", "iife"],
-    dts: true,
-    clean: true,
-    minify: true,
-    sourcemap: "external",
-    globalName: "KeyWrit",
-});
+export default defineConfig([
+    {
+        name: "library",
+        entry: ["src/index.ts"],
+        format: ["esm", "cjs", "iife"],
+        dts: true,
+        clean: true,
+        minify: true,
+        sourcemap: "external",
+        globalName: "KeyWrit",
+    },
+    {
+        name: "cli",
+        entry: ["src/cli/index.ts"],
+        outDir: "dist/cli",
+        format: ["esm"],
+        target: "node",
+        minify: true,
+    },
+]);
@@ -0,0 +1,137 @@
+/**
+ * CLI argument helpers
+ */
+
+import { type ParseArgsConfig, parseArgs } from "node:util";
+import { LicenseIssuer } from "../issuer/index.ts";
+import type { PrivateKeyInput, PublicKeyInput } from "../types/index.ts";
+import { importPrivateKey } from "../utils/keys.ts";
+import { parseDuration } from "../utils/time.ts";
+import { readFileOrValue } from "./io.ts";
+
+/** Error caused by invalid command-line usage */
+export class UsageError extends Error {
+    public constructor(message: string) {
+        super(message);
+        this.name = "UsageError";
+    }
+}
+
+/**
+ * Parse command arguments, reporting unknown or malformed options as usage errors
+ */
+export function parseCommandArgs<T extends ParseArgsConfig["options"]>(
+    args: string[],
+    options: T,
+) {
+    try {
+        return parseArgs({ args, options, allowPositionals: true });
+    } catch (error) {
+        throw new UsageError((error as Error).message);
+    }
+}
+
+/**
+ * Return a required option value or throw a usage error
+ */
+export function requireOption<V>(value: V | undefined, name: string): V {
+    if (value === undefined) {
+        throw new UsageError(`Missing required option --${name}`);
+    }
+    return value;
+}
+
+/**
+ * Resolve a private key from a file path or inline value.
+ * PEM and JWK keys are detected from their content; anything else is
+ * treated as hex or base64.
+ */
+export async function readPrivateKey(value: string): Promise<PrivateKeyInput> {
+    const text = await readFileOrValue(value);
+    if (text.startsWith("-----BEGIN")) {
+        return importPrivateKey(text, "pem");
+    }
+    if (text.startsWith("{")) {
+        return importPrivateKey(text, "jwk");
+    }
+    return text;
+}
+
+/**
+ * Resolve a public key from a file path or inline value.
+ * Every format accepted by normalizePublicKey (hex, base64, PEM, JWK) works.
+ */
+export async function readPublicKey(value: string): Promise<PublicKeyInput> {
+    return readFileOrValue(value);
+}
+
+/**
+ * Parse a point in time given as a Unix timestamp or a date string
+ */
+export function parseTime(value: string): number {
+    if (/^\d+$/.test(value)) {
+        return Number(value);
+    }
+    const millis = Date.parse(value);
+    if (Number.isNaN(millis)) {
+        throw new UsageError(
+            `Invalid time "${value}": expected a Unix timestamp or ISO 8601 date`,
+        );
+    }
+    return Math.floor(millis / 1000);
+}
+
+/**
+ * Parse a "key=value" feature argument.
+ * Values that are valid JSON (numbers, booleans, objects) keep their type.
+ */
+export function parseFeature(argument: string): [string, unknown] {
+    const index = argument.indexOf("=");
+    if (index <= 0) {
+        throw new UsageError(
+            `Invalid feature "${argument}": expected key=value`,
+        );
+    }
+    const key = argument.slice(0, index);
+    const raw = argument.slice(index + 1);
+    try {
+        return [key, JSON.parse(raw)];
+    } catch {
+        return [key, raw];
+    }
+}
+
+/**
+ * Create an issuer for signing lists from the --key and --signing-kid options
+ */
+export async function createIssuer(
+    realm: string,
+    values: { key?: string; "signing-kid"?: string },
+): Promise<LicenseIssuer> {
+    const keyArgument = values.key ?? process.env.KEYWRIT_PRIVATE_KEY;
+    if (!keyArgument) {
+        throw new UsageError(
+            "Missing private key: pass --key or set KEYWRIT_PRIVATE_KEY",
+        );
+    }
+    return LicenseIssuer.create(realm, {
+        privateKey: await readPrivateKey(keyArgument),
+        kid: values["signing-kid"],
+    });
+}
+
+/**
+ * Parse an optional duration option
+ */
+export function parseDurationOption(
+    value: string | undefined,
+): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    try {
+        return parseDuration(value);
+    } catch (error) {
+        throw new UsageError((error as Error).message);
+    }
+}
@@ -0,0 +1,67 @@
+/**
+ * `keywrit inspect` - Decode a license token without verifying it
+ */
+
+import { decodeJWT, decodePayload } from "../../jwt/decode.ts";
+import { computeExpirationInfo } from "../../utils/time.ts";
+import { parseCommandArgs, parseTime } from "../args.ts";
+import { EXIT_MALFORMED, EXIT_OK } from "../exit-codes.ts";
+import { formatExpiration, formatSection } from "../format.ts";
+import { type CliIO, readToken } from "../io.ts";
+
+export const INSPECT_USAGE = `Usage: keywrit inspect [token|file|-] [options]
+
+Decode a license token without verifying its signature. The token is read
+from stdin when omitted or "-".
+
+Options:
+  --at <time>  Compute expiration as of a Unix timestamp or ISO date
+  --json       Print the decoded token as JSON
+`;
+
+/**
+ * Run the inspect command
+ */
+export async function inspect(args: string[], io: CliIO): Promise<number> {
+    const { values, positionals } = parseCommandArgs(args, {
+        at: { type: "string" },
+        json: { type: "boolean" },
+    });
+
+    const currentTime =
+        values.at !== undefined ? parseTime(values.at) : undefined;
+    const token = await readToken(positionals[0]);
+    const decoded = decodeJWT(token);
+
+    const header = decoded.success ? decoded.data.header : null;
+    const payload = decoded.success
+        ? decoded.data.payload
+        : decodePayload(token);
+    const error = decoded.success ? null : decoded.error;
+    const expiration = payload
+        ? computeExpirationInfo(payload.exp, currentTime)
+        : null;
+
+    if (values.json) {
+        io.stdout(
+            `${JSON.stringify({ header, payload, error, expiration }, null, 2)}\n`,
+        );
+    } else {
+        let output = "Signature: not verified\n";
+        if (error) {
+            output += `Error: ${error}\n`;
+        }
+        if (header) {
+            output += formatSection("Header", header);
+        }
+        if (payload) {
+            output += formatSection("Payload", payload);
+        }
+        if (expiration) {
+            output += formatExpiration(expiration);
+        }
+        io.stdout(output);
+    }
+
+    return decoded.success ? EXIT_OK : EXIT_MALFORMED;
+}
@@ -0,0 +1,79 @@
+/**
+ * `keywrit keygen` - Generate an Ed25519 signing key pair
+ */
+
+import { writeFile } from "node:fs/promises";
+import { generateKeyPair } from "../../crypto/ed25519.ts";
+import type { KeyFormat } from "../../types/index.ts";
+import { exportPrivateKey, exportPublicKey } from "../../utils/keys.ts";
+import { parseCommandArgs, UsageError } from "../args.ts";
+import { EXIT_OK } from "../exit-codes.ts";
+import { type CliIO, writeOutput } from "../io.ts";
+
+const KEY_FORMATS: readonly KeyFormat[] = ["hex", "base64url", "pem", "jwk"];
+
+export const KEYGEN_USAGE = `Usage: keywrit keygen [options]
+
+Generate an Ed25519 key pair for signing licenses.
+
+Options:
+  --format <format>  hex, base64url, pem or jwk (default: hex)
+  --out <file>       Write the private key to <file> and the public key
+                     to <file>.pub instead of printing both as JSON
+`;
+
+/**
+ * Run the keygen command
+ */
+export async function keygen(args: string[], io: CliIO): Promise<number> {
+    const { values } = parseCommandArgs(args, {
+        format: { type: "string", default: "hex" },
+        out: { type: "string" },
+    });
+
+    const format = values.format as KeyFormat;
+    if (!KEY_FORMATS.includes(format)) {
+        throw new UsageError(
+            `Invalid format "${format}": expected ${KEY_FORMATS.join(", ")}`,
+        );
+    }
+
+    const { publicKey, privateKey } = await generateKeyPair();
+    const exportedPrivate =
+        format === "jwk"
+            ? await exportPrivateKey(privateKey, "jwk")
+            : await exportPrivateKey(privateKey, format);
+    const exportedPublic =
+        format === "jwk"
+            ? exportPublicKey(publicKey, "jwk")
+            : exportPublicKey(publicKey, format);
+
+    if (values.out) {
+        await writeOutput(io, serialize(exportedPrivate), values.out);
+        await writeFile(
+            `${values.out}.pub`,
+            `${serialize(exportedPublic).trim()}\n`,
+        );
+        io.stderr(
+            `Wrote private key to ${values.out} and public key to ${values.out}.pub\n`,
+        );
+        return EXIT_OK;
+    }
+
+    await writeOutput(
+        io,
+        JSON.stringify(
+            { privateKey: exportedPrivate, publicKey: exportedPublic },
+            null,
+            2,
+        ),
+    );
+    return EXIT_OK;
+}
+
+/**
+ * Serialize an exported key for writing to a file
+ */
+function serialize(key: string | object): string {
+    return typeof key === "string" ? key : JSON.stringify(key);
+}
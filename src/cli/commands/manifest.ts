@@ -0,0 +1,106 @@
+/**
+ * `keywrit manifest` - Sign a key manifest with the root key
+ */
+
+import { signKeyManifest } from "../../issuer/index.ts";
+import type { KeyManifestKeyInput } from "../../types/index.ts";
+import { parseDuration } from "../../utils/time.ts";
+import {
+    parseCommandArgs,
+    parseTime,
+    readPrivateKey,
+    readPublicKey,
+    UsageError,
+} from "../args.ts";
+import { EXIT_OK } from "../exit-codes.ts";
+import { type CliIO, writeOutput } from "../io.ts";
+
+export const MANIFEST_USAGE = `Usage: keywrit manifest --key <kid>=<key|file> [options]
+
+Sign a key manifest listing the authorized signing keys. Validators
+configured with the root public key trust every listed key.
+
+Options:
+  --root-key <key|file>     Root private key, or a file containing it.
+                            Defaults to $KEYWRIT_ROOT_KEY
+  --key <kid>=<key|file>    Authorized public key (repeatable)
+  --not-before <kid>=<time> Start of a key's signing window (repeatable)
+  --not-after <kid>=<time>  End of a key's signing window (repeatable)
+  --expires <duration>      Manifest lifetime such as 30d or 1y
+  --out <file>              Write the manifest to <file> instead of stdout
+`;
+
+/**
+ * Run the manifest command
+ */
+export async function manifest(args: string[], io: CliIO): Promise<number> {
+    const { values } = parseCommandArgs(args, {
+        "root-key": { type: "string" },
+        key: { type: "string", multiple: true },
+        "not-before": { type: "string", multiple: true },
+        "not-after": { type: "string", multiple: true },
+        expires: { type: "string" },
+        out: { type: "string" },
+    });
+
+    const rootKeyArgument = values["root-key"] ?? process.env.KEYWRIT_ROOT_KEY;
+    if (!rootKeyArgument) {
+        throw new UsageError(
+            "Missing root key: pass --root-key or set KEYWRIT_ROOT_KEY",
+        );
+    }
+    if (!values.key) {
+        throw new UsageError("Pass at least one --key <kid>=<key>");
+    }
+
+    const keys = new Map<string, KeyManifestKeyInput>();
+    for (const argument of values.key) {
+        const [kid, value] = splitKidArgument(argument, "key");
+        if (keys.has(kid)) {
+            throw new UsageError(`Duplicate key ID: ${kid}`);
+        }
+        keys.set(kid, { kid, publicKey: await readPublicKey(value) });
+    }
+    for (const field of ["not-before", "not-after"] as const) {
+        for (const argument of values[field] ?? []) {
+            const [kid, value] = splitKidArgument(argument, field);
+            const key = keys.get(kid);
+            if (!key) {
+                throw new UsageError(`--${field} names unknown key ID ${kid}`);
+            }
+            key[field === "not-before" ? "notBefore" : "notAfter"] =
+                parseTime(value);
+        }
+    }
+
+    let expiresIn: number | undefined;
+    if (values.expires !== undefined) {
+        try {
+            expiresIn = parseDuration(values.expires);
+        } catch (error) {
+            throw new UsageError((error as Error).message);
+        }
+    }
+
+    const signed = await signKeyManifest(
+        [...keys.values()],
+        await readPrivateKey(rootKeyArgument),
+        { expiresIn },
+    );
+
+    await writeOutput(io, signed, values.out);
+    return EXIT_OK;
+}
+
+/**
+ * Split a "kid=value" argument
+ */
+function splitKidArgument(argument: string, option: string): [string, string] {
+    const index = argument.indexOf("=");
+    if (index <= 0) {
+        throw new UsageError(
+            `Invalid --${option} "${argument}": expected <kid>=<value>`,
+        );
+    }
+    return [argument.slice(0, index), argument.slice(index + 1)];
+}
@@ -0,0 +1,510 @@
+/**
+ * `keywrit revoke` - Maintain revocation list files
+ */
+
+import { writeFile } from "node:fs/promises";
+import { decodePayload } from "../../jwt/decode.ts";
+import {
+    createRevocationListDelta,
+    entryId,
+    isPartialEntry,
+    parseRevocationList,
+} from "../../revocation/index.ts";
+import type {
+    RevocationEntry,
+    RevocationList,
+    RevocationListDelta,
+    RevocationReason,
+    RevokedKey,
+} from "../../types/index.ts";
+import { now } from "../../utils/time.ts";
+import {
+    createIssuer,
+    parseCommandArgs,
+    parseDurationOption,
+    parseTime,
+    requireOption,
+    UsageError,
+} from "../args.ts";
+import { EXIT_MALFORMED, EXIT_OK } from "../exit-codes.ts";
+import {
+    type CliIO,
+    readJsonFile,
+    readRevocationListFile,
+    readTokenArgument,
+    writeOutput,
+} from "../io.ts";
+
+export const REVOKE_USAGE = `Usage: keywrit revoke <subcommand> <file> [options]
+
+Maintain a revocation list file (the JSON served at revocationUrl).
+Adding or removing entries increments the list's "seq" when it has one.
+
+Subcommands:
+  init <file>       Create an empty revocation list
+  add <file>        Add entries to the list
+  remove <file>     Remove entries from the list
+  list <file>       Print the entries in the list
+  validate <file>   Check that the file is a valid revocation list
+  sign <file>       Sign the list for serving at revocationUrl
+  delta <file>      Print the changes since an older copy of the list, for
+                    serving at revocationDeltaUrl
+
+Options:
+  --jti <id>            Token ID entry (repeatable, add/remove)
+  --sub <subject>       Subject entry (repeatable, add/remove)
+  --token <token|file>  Take the entry from a token (repeatable, add/remove)
+  --by <jti|sub>        Claim taken from --token (default: jti)
+  --reason <reason>     Why the jti/sub entries are revoked: refund,
+                        chargeback, key_compromise or superseded (add)
+  --until <t>           Suspend the jti/sub entries until this Unix
+                        timestamp or ISO date instead of revoking them (add)
+  --flag <flag>         Withdraw only this flag from the jti/sub entries'
+                        tokens instead of revoking them (repeatable, add)
+  --feature <key>       Withdraw only this feature from the jti/sub entries'
+                        tokens instead of revoking them (repeatable, add)
+  --kid <id>            Signing key ID entry (repeatable, add/remove)
+  --fingerprint <hash>  Signing key SHA-256 fingerprint entry (repeatable,
+                        add/remove)
+  --compromised-at <t>  Only revoke tokens issued by the keys at or after
+                        this Unix timestamp or ISO date (add)
+  --issued-before <t>   Revoke every token issued before this Unix
+                        timestamp or ISO date (add/remove)
+  --sub-issued-before <sub>=<t>
+                        Revoke the subject's tokens issued before the time
+                        (repeatable, add/remove)
+  --base <file>         Older copy of the list the delta starts at (delta)
+  --force               Overwrite an existing file (init)
+  --json                Print entries as JSON (list)
+  --key <key|file>      Private key of a trusted signing key, or a file
+                        containing it. Defaults to $KEYWRIT_PRIVATE_KEY (sign)
+  --signing-kid <id>    Key ID written to the header (sign/delta)
+  --realm <realm>       Realm the list applies to (sign); signs the delta
+                        with --key when given (delta)
+  --expires <duration>  Lifetime of the signed list such as 1d (sign/delta)
+  --next-update <dur>   Announce the next list within this duration, and
+                        stamp the list with its issue time (sign)
+  --out <file>          Write the signed list or delta to <file> instead
+                        of stdout (sign/delta)
+`;
+
+/** Revocation list fields that hold entries */
+type EntryField = "jti" | "sub";
+
+/** Entries named on the command line */
+interface Entries extends Record<EntryField, (string | RevocationEntry)[]> {
+    keys: RevokedKey[];
+    issuedBefore?: number;
+    subIssuedBefore: Record<string, number>;
+}
+
+/**
+ * Run the revoke command
+ */
+export async function revoke(args: string[], io: CliIO): Promise<number> {
+    const { values, positionals } = parseCommandArgs(args, {
+        jti: { type: "string", multiple: true },
+        sub: { type: "string", multiple: true },
+        token: { type: "string", multiple: true },
+        by: { type: "string", default: "jti" },
+        reason: { type: "string" },
+        until: { type: "string" },
+        flag: { type: "string", multiple: true },
+        feature: { type: "string", multiple: true },
+        kid: { type: "string", multiple: true },
+        fingerprint: { type: "string", multiple: true },
+        "compromised-at": { type: "string" },
+        "issued-before": { type: "string" },
+        "sub-issued-before": { type: "string", multiple: true },
+        base: { type: "string" },
+        force: { type: "boolean" },
+        json: { type: "boolean" },
+        key: { type: "string" },
+        "signing-kid": { type: "string" },
+        realm: { type: "string" },
+        expires: { type: "string" },
+        "next-update": { type: "string" },
+        out: { type: "string" },
+    });
+
+    const [subcommand, file] = positionals;
+    if (subcommand === undefined) {
+        throw new UsageError("Missing subcommand");
+    }
+    if (file === undefined) {
+        throw new UsageError("Missing revocation list file");
+    }
+
+    switch (subcommand) {
+        case "init": {
+            await writeFile(file, serialize({ jti: [], sub: [] }), {
+                flag: values.force ? "w" : "wx",
+            });
+            io.stderr(`Created ${file}\n`);
+            return EXIT_OK;
+        }
+        case "add":
+        case "remove": {
+            const list = await readRevocationListFile(file);
+            const entries = await collectEntries(values);
+            const changed = updateList(list, entries, subcommand);
+            if (changed > 0 && list.seq !== undefined) {
+                list.seq++;
+            }
+            await writeFile(file, serialize(list));
+            io.stderr(
+                `${subcommand === "add" ? "Added" : "Removed"} ${changed} entr${changed === 1 ? "y" : "ies"}\n`,
+            );
+            return EXIT_OK;
+        }
+        case "list": {
+            const list = await readRevocationListFile(file);
+            if (values.json) {
+                io.stdout(serialize(list));
+            } else {
+                for (const field of ["jti", "sub"] as const) {
+                    for (const entry of list[field] ?? []) {
+                        io.stdout(`${field}\t${formatEntry(entry)}\n`);
+                    }
+                }
+                for (const key of list.keys ?? []) {
+                    io.stdout(`key\t${formatRevokedKey(key)}\n`);
+                }
+                if (list.issuedBefore !== undefined) {
+                    io.stdout(`issuedBefore\t${list.issuedBefore}\n`);
+                }
+                for (const [sub, cutoff] of Object.entries(
+                    list.subIssuedBefore ?? {},
+                )) {
+                    io.stdout(`subIssuedBefore\t${sub}=${cutoff}\n`);
+                }
+            }
+            return EXIT_OK;
+        }
+        case "validate": {
+            const parsed = parseRevocationList(await readJsonFile(file));
+            if (!parsed.success) {
+                io.stderr(
+                    `${file} is not a valid revocation list:\n${parsed.errors.map((error) => `  ${error}\n`).join("")}`,
+                );
+                return EXIT_MALFORMED;
+            }
+            io.stdout(`${file} is a valid revocation list\n`);
+            return EXIT_OK;
+        }
+        case "sign": {
+            const realm = requireOption(values.realm, "realm");
+            const expiresIn = parseDurationOption(values.expires);
+            const nextUpdateIn = parseDurationOption(values["next-update"]);
+
+            const list = await readRevocationListFile(file);
+            if (nextUpdateIn !== undefined) {
+                list.iat = now();
+                list.nextUpdate = list.iat + nextUpdateIn;
+            }
+            const issuer = await createIssuer(realm, values);
+            const signed = await issuer.signRevocationList(list, {
+                expiresIn,
+            });
+            await writeOutput(io, signed, values.out);
+            return EXIT_OK;
+        }
+        case "delta": {
+            const base = await readRevocationListFile(
+                requireOption(values.base, "base"),
+            );
+            const list = await readRevocationListFile(file);
+            let delta: RevocationListDelta;
+            try {
+                delta = createRevocationListDelta(base, list);
+            } catch (error) {
+                throw new UsageError((error as Error).message);
+            }
+
+            if (values.realm === undefined) {
+                await writeOutput(io, serialize(delta), values.out);
+                return EXIT_OK;
+            }
+            const expiresIn = parseDurationOption(values.expires);
+            const issuer = await createIssuer(values.realm, values);
+            const signed = await issuer.signRevocationListDelta(delta, {
+                expiresIn,
+            });
+            await writeOutput(io, signed, values.out);
+            return EXIT_OK;
+        }
+        default:
+            throw new UsageError(`Unknown subcommand: ${subcommand}`);
+    }
+}
+
+/**
+ * Gather the entries named on the command line, including those taken from tokens
+ */
+async function collectEntries(values: {
+    jti?: string[];
+    sub?: string[];
+    token?: string[];
+    by?: string;
+    reason?: string;
+    until?: string;
+    flag?: string[];
+    feature?: string[];
+    kid?: string[];
+    fingerprint?: string[];
+    "compromised-at"?: string;
+    "issued-before"?: string;
+    "sub-issued-before"?: string[];
+}): Promise<Entries> {
+    if (values.by !== "jti" && values.by !== "sub") {
+        throw new UsageError(
+            `Invalid --by "${values.by}": expected jti or sub`,
+        );
+    }
+    const field: EntryField = values.by;
+
+    const ids: Record<EntryField, string[]> = {
+        jti: [...(values.jti ?? [])],
+        sub: [...(values.sub ?? [])],
+    };
+    for (const argument of values.token ?? []) {
+        const payload = decodePayload(await readTokenArgument(argument));
+        if (!payload) {
+            throw new Error("Could not decode token payload");
+        }
+        const value = payload[field];
+        if (typeof value !== "string") {
+            throw new Error(`Token has no "${field}" claim`);
+        }
+        ids[field].push(value);
+    }
+
+    // Entries with details carry their revocation time
+    const details: Omit<RevocationEntry, "id"> = {};
+    if (values.reason !== undefined) {
+        details.reason = values.reason as RevocationReason;
+    }
+    if (
+        values.reason !== undefined ||
+        values.until !== undefined ||
+        values.flag !== undefined ||
+        values.feature !== undefined
+    ) {
+        details.revokedAt = now();
+    }
+    if (values.until !== undefined) {
+        details.until = parseTime(values.until);
+    }
+    if (values.flag !== undefined) {
+        details.flags = values.flag;
+    }
+    if (values.feature !== undefined) {
+        details.features = values.feature;
+    }
+    const entries: Entries = {
+        jti: ids.jti.map((id) => withDetails(id, details)),
+        sub: ids.sub.map((id) => withDetails(id, details)),
+        keys: [],
+        subIssuedBefore: {},
+    };
+    const parsedEntries = parseRevocationList({
+        jti: entries.jti,
+        sub: entries.sub,
+    });
+    if (!parsedEntries.success) {
+        throw new UsageError(parsedEntries.errors.join("; "));
+    }
+
+    const compromisedAt =
+        values["compromised-at"] !== undefined
+            ? parseTime(values["compromised-at"])
+            : undefined;
+    const keys: RevokedKey[] = [
+        ...(values.kid ?? []).map((kid) => ({ kid })),
+        ...(values.fingerprint ?? []).map((fingerprint) => ({ fingerprint })),
+    ];
+    for (const key of keys) {
+        entries.keys.push(
+            compromisedAt !== undefined ? { ...key, compromisedAt } : key,
+        );
+    }
+    const parsed = parseRevocationList({ keys: entries.keys });
+    if (!parsed.success) {
+        throw new UsageError(parsed.errors.join("; "));
+    }
+
+    if (values["issued-before"] !== undefined) {
+        entries.issuedBefore = parseTime(values["issued-before"]);
+    }
+    for (const argument of values["sub-issued-before"] ?? []) {
+        const index = argument.lastIndexOf("=");
+        if (index <= 0) {
+            throw new UsageError(
+                `Invalid --sub-issued-before "${argument}": expected <sub>=<time>`,
+            );
+        }
+        entries.subIssuedBefore[argument.slice(0, index)] = parseTime(
+            argument.slice(index + 1),
+        );
+    }
+
+    if (
+        entries.jti.length === 0 &&
+        entries.sub.length === 0 &&
+        entries.keys.length === 0 &&
+        entries.issuedBefore === undefined &&
+        Object.keys(entries.subIssuedBefore).length === 0
+    ) {
+        throw new UsageError(
+            "Nothing to do: pass --jti, --sub, --token, --kid, --fingerprint, --issued-before or --sub-issued-before",
+        );
+    }
+    return entries;
+}
+
+/**
+ * Add or remove entries in place, returning the number of changed entries
+ */
+function updateList(
+    list: RevocationList,
+    entries: Entries,
+    action: "add" | "remove",
+): number {
+    let changed = 0;
+    for (const field of ["jti", "sub"] as const) {
+        const current = new Map(
+            (list[field] ?? []).map((entry) => [entryId(entry), entry]),
+        );
+        for (const entry of entries[field]) {
+            const id = entryId(entry);
+            const previous = current.get(id);
+            if (action === "add" && narrowsRevocation(previous, entry)) {
+                throw new UsageError(
+                    `${field} "${id}" is revoked in full; remove it before withdrawing only some entitlements`,
+                );
+            }
+            if (
+                action === "add" &&
+                (previous === undefined ||
+                    formatEntry(previous) !== formatEntry(entry))
+            ) {
+                current.set(id, entry);
+                changed++;
+            } else if (action === "remove" && previous !== undefined) {
+                current.delete(id);
+                changed++;
+            }
+        }
+        list[field] = [...current.values()];
+    }
+
+    const keys = [...(list.keys ?? [])];
+    for (const entry of entries.keys) {
+        const index = keys.findIndex((key) => sameKey(key, entry));
+        const present = index !== -1;
+        if (action === "add" && !present) {
+            keys.push(entry);
+            changed++;
+        } else if (
+            action === "add" &&
+            keys[index]!.compromisedAt !== entry.compromisedAt
+        ) {
+            keys[index] = entry;
+            changed++;
+        } else if (action === "remove" && present) {
+            keys.splice(index, 1);
+            changed++;
+        }
+    }
+    if (keys.length > 0 || list.keys) {
+        list.keys = keys;
+    }
+
+    // Cutoffs are replaced when added, and removed whatever their time
+    if (entries.issuedBefore !== undefined) {
+        if (action === "add" && list.issuedBefore !== entries.issuedBefore) {
+            list.issuedBefore = entries.issuedBefore;
+            changed++;
+        } else if (action === "remove" && list.issuedBefore !== undefined) {
+            list.issuedBefore = undefined;
+            changed++;
+        }
+    }
+    const cutoffs = { ...list.subIssuedBefore };
+    for (const [sub, cutoff] of Object.entries(entries.subIssuedBefore)) {
+        const present = Object.hasOwn(cutoffs, sub);
+        if (action === "add" && cutoffs[sub] !== cutoff) {
+            cutoffs[sub] = cutoff;
+            changed++;
+        } else if (action === "remove" && present) {
+            delete cutoffs[sub];
+            changed++;
+        }
+    }
+    list.subIssuedBefore =
+        Object.keys(cutoffs).length > 0 ? cutoffs : undefined;
+    return changed;
+}
+
+/**
+ * Check whether adding an entry would turn a full revocation into a
+ * partial one, letting the token validate again
+ */
+function narrowsRevocation(
+    previous: string | RevocationEntry | undefined,
+    entry: string | RevocationEntry,
+): boolean {
+    return (
+        previous !== undefined &&
+        typeof entry !== "string" &&
+        isPartialEntry(entry) &&
+        (typeof previous === "string" || !isPartialEntry(previous))
+    );
+}
+
+/**
+ * Check whether two revoked key entries name the same key
+ */
+function sameKey(a: RevokedKey, b: RevokedKey): boolean {
+    return a.kid === b.kid && a.fingerprint === b.fingerprint;
+}
+
+/**
+ * Attach revocation details to an entry, keeping plain IDs as strings
+ */
+function withDetails(
+    id: string,
+    details: Omit<RevocationEntry, "id">,
+): string | RevocationEntry {
+    return Object.keys(details).length > 0 ? { id, ...details } : id;
+}
+
+/**
+ * Format a jti or sub entry for the list subcommand
+ */
+function formatEntry(entry: string | RevocationEntry): string {
+    if (typeof entry === "string") {
+        return entry;
+    }
+    const { id, ...details } = entry;
+    const fields = Object.entries(details).map(
+        ([field, value]) => `${field}=${value}`,
+    );
+    return fields.length > 0 ? `${id}\t${fields.join(" ")}` : id;
+}
+
+/**
+ * Format a revoked key entry for the list subcommand
+ */
+function formatRevokedKey(key: RevokedKey): string {
+    return Object.entries(key)
+        .map(([field, value]) => `${field}=${value}`)
+        .join(" ");
+}
+
+/**
+ * Serialize a revocation list or delta for writing to disk
+ */
+function serialize(list: RevocationList | RevocationListDelta): string {
+    return `${JSON.stringify(list, null, 2)}\n`;
+}
@@ -0,0 +1,146 @@
+/**
+ * `keywrit sign` - Sign a license token
+ */
+
+import { LicenseIssuer } from "../../issuer/index.ts";
+import { checkStatusClaim } from "../../revocation/index.ts";
+import type { IssueClaims } from "../../types/index.ts";
+import { parseDuration } from "../../utils/time.ts";
+import {
+    parseCommandArgs,
+    parseFeature,
+    readPrivateKey,
+    requireOption,
+    UsageError,
+} from "../args.ts";
+import { EXIT_OK } from "../exit-codes.ts";
+import { type CliIO, readJsonFile, writeOutput } from "../io.ts";
+
+export const SIGN_USAGE = `Usage: keywrit sign --realm <realm> [options]
+
+Sign a license token. Claims are read from --claims and extended by the
+individual claim options.
+
+Options:
+  --key <key|file>     Private key (hex, base64, PEM or JWK), or a file
+                       containing it. Defaults to $KEYWRIT_PRIVATE_KEY
+  --kid <id>           Key ID written to the token header
+  --realm <realm>      Realm (audience) the license is issued for
+  --claims <file>      JSON file with the base claims
+  --sub <subject>      License holder
+  --kind <kind>        License kind (e.g. "pro")
+  --flag <flag>        Enabled flag (repeatable)
+  --feature <k=v>      Feature value, parsed as JSON when possible (repeatable)
+  --domain <domain>    Allowed domain (repeatable)
+  --status-url <url>   Status list holding the token's revocation bit
+  --status-index <n>   Index of the token in the status list
+  --jti <id>           Token ID (default: random UUID)
+  --expires <duration> Lifetime such as 30d, 12h or 1y
+  --out <file>         Write the token to <file> instead of stdout
+`;
+
+/**
+ * Run the sign command
+ */
+export async function sign(args: string[], io: CliIO): Promise<number> {
+    const { values } = parseCommandArgs(args, {
+        key: { type: "string" },
+        kid: { type: "string" },
+        realm: { type: "string" },
+        claims: { type: "string" },
+        sub: { type: "string" },
+        kind: { type: "string" },
+        flag: { type: "string", multiple: true },
+        feature: { type: "string", multiple: true },
+        domain: { type: "string", multiple: true },
+        "status-url": { type: "string" },
+        "status-index": { type: "string" },
+        jti: { type: "string" },
+        expires: { type: "string" },
+        out: { type: "string" },
+    });
+
+    const realm = requireOption(values.realm, "realm");
+    const keyArgument = values.key ?? process.env.KEYWRIT_PRIVATE_KEY;
+    if (!keyArgument) {
+        throw new UsageError(
+            "Missing private key: pass --key or set KEYWRIT_PRIVATE_KEY",
+        );
+    }
+
+    const claims = values.claims ? await readClaims(values.claims) : {};
+    if (values.sub !== undefined) {
+        claims.sub = values.sub;
+    }
+    if (values.kind !== undefined) {
+        claims.kind = values.kind;
+    }
+    if (values.jti !== undefined) {
+        claims.jti = values.jti;
+    }
+    if (values.flag) {
+        claims.flags = [...new Set([...(claims.flags ?? []), ...values.flag])];
+    }
+    if (values.feature) {
+        claims.features = {
+            ...claims.features,
+            ...Object.fromEntries(values.feature.map(parseFeature)),
+        };
+    }
+    if (values.domain) {
+        claims.allowedDomains = [
+            ...(claims.allowedDomains ?? []),
+            ...values.domain,
+        ];
+    }
+
+    if (
+        (values["status-url"] === undefined) !==
+        (values["status-index"] === undefined)
+    ) {
+        throw new UsageError("--status-url and --status-index go together");
+    }
+    if (values["status-url"] !== undefined) {
+        claims.status = {
+            url: values["status-url"],
+            index: Number(values["status-index"]),
+        };
+        const invalid = checkStatusClaim(claims.status);
+        if (invalid) {
+            throw new UsageError(`Invalid status claim: ${invalid}`);
+        }
+    }
+
+    let expiresIn: number | undefined;
+    if (values.expires !== undefined) {
+        try {
+            expiresIn = parseDuration(values.expires);
+        } catch (error) {
+            throw new UsageError((error as Error).message);
+        }
+    }
+
+    const issuer = LicenseIssuer.create(realm, {
+        privateKey: await readPrivateKey(keyArgument),
+        kid: values.kid,
+    });
+    const token = await issuer.issue(claims, { expiresIn });
+
+    await writeOutput(io, token, values.out);
+    return EXIT_OK;
+}
+
+/**
+ * Read base claims from a JSON file
+ */
+async function readClaims(file: string): Promise<IssueClaims> {
+    const claims = await readJsonFile(file);
+    if (
+        typeof claims !== "object" ||
+        claims === null ||
+        Array.isArray(claims)
+    ) {
+        throw new Error(`${file} must contain a JSON object of claims`);
+    }
+    return claims as IssueClaims;
+}
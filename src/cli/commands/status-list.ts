@@ -0,0 +1,171 @@
+/**
+ * `keywrit status-list` - Maintain bitstring status list files
+ */
+
+import { writeFile } from "node:fs/promises";
+import { StatusList } from "../../revocation/index.ts";
+import type { StatusListDocument } from "../../types/index.ts";
+import {
+    createIssuer,
+    parseCommandArgs,
+    parseDurationOption,
+    requireOption,
+    UsageError,
+} from "../args.ts";
+import { EXIT_OK, EXIT_REVOKED } from "../exit-codes.ts";
+import { type CliIO, readJsonFile, writeOutput } from "../io.ts";
+
+export const STATUS_LIST_USAGE = `Usage: keywrit status-list <subcommand> <file> [options]
+
+Maintain a bitstring status list file (the JSON served at a token's
+status.url). Tokens reference their entry with the status claim, e.g.
+keywrit sign --status-url <url> --status-index <n>. Revoking or restoring
+entries increments the list's "seq".
+
+Subcommands:
+  init <file>      Create an empty status list
+  revoke <file>    Revoke the tokens at the given indexes
+  restore <file>   Clear the revocation of the given indexes
+  check <file>     Print whether each index is revoked; exits with 6 if
+                   any of them is
+  sign <file>      Sign the list for serving at the status URL
+
+Options:
+  --index <n>           Token index (repeatable, revoke/restore/check)
+  --size <n>            Number of entries (init, default: 131072)
+  --force               Overwrite an existing file (init)
+  --key <key|file>      Private key of a trusted signing key, or a file
+                        containing it. Defaults to $KEYWRIT_PRIVATE_KEY (sign)
+  --signing-kid <id>    Key ID written to the header (sign)
+  --realm <realm>       Realm the list applies to (sign)
+  --expires <duration>  Lifetime of the signed list such as 1d (sign)
+  --out <file>          Write the signed list to <file> instead of stdout
+                        (sign)
+`;
+
+/**
+ * Run the status-list command
+ */
+export async function statusList(args: string[], io: CliIO): Promise<number> {
+    const { values, positionals } = parseCommandArgs(args, {
+        index: { type: "string", multiple: true },
+        size: { type: "string" },
+        force: { type: "boolean" },
+        key: { type: "string" },
+        "signing-kid": { type: "string" },
+        realm: { type: "string" },
+        expires: { type: "string" },
+        out: { type: "string" },
+    });
+
+    const [subcommand, file] = positionals;
+    if (subcommand === undefined) {
+        throw new UsageError("Missing subcommand");
+    }
+    if (file === undefined) {
+        throw new UsageError("Missing status list file");
+    }
+
+    switch (subcommand) {
+        case "init": {
+            const list = StatusList.create(
+                values.size !== undefined
+                    ? parseInteger(values.size, "size")
+                    : undefined,
+            );
+            list.seq = 1;
+            await writeFile(file, await serialize(list), {
+                flag: values.force ? "w" : "wx",
+            });
+            io.stderr(`Created ${file} with ${list.size} entries\n`);
+            return EXIT_OK;
+        }
+        case "revoke":
+        case "restore": {
+            const list = await readStatusListFile(file);
+            const indexes = parseIndexes(values.index, list);
+            for (const index of indexes) {
+                list.setRevoked(index, subcommand === "revoke");
+            }
+            list.seq = (list.seq ?? 0) + 1;
+            await writeFile(file, await serialize(list));
+            io.stderr(
+                `${subcommand === "revoke" ? "Revoked" : "Restored"} ${indexes.length} entr${indexes.length === 1 ? "y" : "ies"}\n`,
+            );
+            return EXIT_OK;
+        }
+        case "check": {
+            const list = await readStatusListFile(file);
+            let revoked = false;
+            for (const index of parseIndexes(values.index, list)) {
+                const isRevoked = list.isRevoked(index);
+                revoked ||= isRevoked;
+                io.stdout(`${index}\t${isRevoked ? "revoked" : "valid"}\n`);
+            }
+            return revoked ? EXIT_REVOKED : EXIT_OK;
+        }
+        case "sign": {
+            const realm = requireOption(values.realm, "realm");
+            const expiresIn = parseDurationOption(values.expires);
+            const list = await readStatusListFile(file);
+            const issuer = await createIssuer(realm, values);
+            const signed = await issuer.signStatusList(list, { expiresIn });
+            await writeOutput(io, signed, values.out);
+            return EXIT_OK;
+        }
+        default:
+            throw new UsageError(`Unknown subcommand: ${subcommand}`);
+    }
+}
+
+/**
+ * Parse the --index options, checking them against the list size
+ */
+function parseIndexes(
+    values: string[] | undefined,
+    list: StatusList,
+): number[] {
+    if (!values) {
+        throw new UsageError("Pass at least one --index <n>");
+    }
+    return values.map((value) => {
+        const index = parseInteger(value, "index");
+        if (index >= list.size) {
+            throw new UsageError(
+                `--index ${index} is outside the status list (size ${list.size})`,
+            );
+        }
+        return index;
+    });
+}
+
+/**
+ * Parse a non-negative integer option
+ */
+function parseInteger(value: string, option: string): number {
+    if (!/^\d+$/.test(value)) {
+        throw new UsageError(
+            `Invalid --${option} "${value}": expected a non-negative integer`,
+        );
+    }
+    return Number(value);
+}
+
+/**
+ * Read and decompress a status list file
+ */
+async function readStatusListFile(file: string): Promise<StatusList> {
+    const document = (await readJsonFile(file)) as StatusListDocument;
+    try {
+        return await StatusList.fromDocument(document);
+    } catch (error) {
+        throw new Error(`${file}: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Serialize a status list for writing to disk
+ */
+async function serialize(list: StatusList): Promise<string> {
+    return `${JSON.stringify(await list.toDocument(), null, 2)}\n`;
+}
@@ -0,0 +1,202 @@
+/**
+ * `keywrit verify` - Fully validate a license token
+ */
+
+import { decodeJWT, decodePayload } from "../../jwt/decode.ts";
+import type {
+    ValidationError,
+    ValidationWarning,
+    ValidatorConfig,
+} from "../../types/index.ts";
+import { computeExpirationInfo } from "../../utils/time.ts";
+import { LicenseValidator } from "../../validators/index.ts";
+import {
+    parseCommandArgs,
+    parseTime,
+    readPublicKey,
+    requireOption,
+    UsageError,
+} from "../args.ts";
+import { EXIT_OK, exitCodeFor } from "../exit-codes.ts";
+import { formatExpiration, formatIssues, formatSection } from "../format.ts";
+import {
+    type CliIO,
+    readFileOrValue,
+    readRevocationListFile,
+    readToken,
+} from "../io.ts";
+
+export const VERIFY_USAGE = `Usage: keywrit verify [token|file|-] --realm <realm> [options]
+
+Validate a license token and report every error and warning. The token is
+read from stdin when omitted or "-".
+
+Options:
+  --realm <realm>           Realm (audience) to validate against
+  --key <key|file>          Public key (hex, base64, PEM or JWK), or a file
+  --key-url <url>           Fetch the public key from a URL
+  --key-pin <sha256>        Expected fingerprint of the fetched key, hex or
+                            base64url (repeatable, requires --key-url)
+  --jwks-url <url>          Fetch the signing keys from a JWKS URL
+  --manifest <file|url>     Trust the keys of a signed key manifest
+  --root-key <key|file>     Root public key of the manifest
+  --revocation <file>       Check a local revocation list file
+  --at <time>               Validate as of a Unix timestamp or ISO date
+  --clock-skew <seconds>    Clock skew tolerance (default: 60)
+  --allow-no-expiration     Accept tokens without an expiration
+  --require-flag <flag>     Required flag (repeatable)
+  --require-feature <key>   Required feature (repeatable)
+  --require-kind <kind>     Required kind
+  --json                    Print the report as JSON
+
+Exit codes: 0 valid, 1 could not be checked (revocation list unavailable
+or outdated, claim validator failed), 3 malformed, 4 bad signature,
+5 expired or not yet valid, 6 revoked, 7 claim requirements not met.
+`;
+
+/**
+ * Run the verify command
+ */
+export async function verify(args: string[], io: CliIO): Promise<number> {
+    const { values, positionals } = parseCommandArgs(args, {
+        realm: { type: "string" },
+        key: { type: "string" },
+        "key-url": { type: "string" },
+        "key-pin": { type: "string", multiple: true },
+        "jwks-url": { type: "string" },
+        manifest: { type: "string" },
+        "root-key": { type: "string" },
+        revocation: { type: "string" },
+        at: { type: "string" },
+        "clock-skew": { type: "string" },
+        "allow-no-expiration": { type: "boolean" },
+        "require-flag": { type: "string", multiple: true },
+        "require-feature": { type: "string", multiple: true },
+        "require-kind": { type: "string" },
+        json: { type: "boolean" },
+    });
+
+    const realm = requireOption(values.realm, "realm");
+    const keySources = [
+        values.key,
+        values["key-url"],
+        values["jwks-url"],
+        values.manifest,
+    ];
+    const keySourceCount = keySources.filter((v) => v !== undefined).length;
+    if (keySourceCount === 0) {
+        throw new UsageError(
+            "Missing public key: pass --key, --key-url, --jwks-url or --manifest",
+        );
+    }
+    if (keySourceCount > 1) {
+        throw new UsageError(
+            "Pass only one of --key, --key-url, --jwks-url and --manifest",
+        );
+    }
+    if (
+        (values.manifest === undefined) !==
+        (values["root-key"] === undefined)
+    ) {
+        throw new UsageError("--manifest and --root-key go together");
+    }
+
+    if (values["key-pin"] && values["key-url"] === undefined) {
+        throw new UsageError("--key-pin requires --key-url");
+    }
+
+    const currentTime =
+        values.at !== undefined ? parseTime(values.at) : undefined;
+    const clockSkew =
+        values["clock-skew"] !== undefined
+            ? Number(values["clock-skew"])
+            : undefined;
+    if (clockSkew !== undefined && !Number.isFinite(clockSkew)) {
+        throw new UsageError(
+            `Invalid clock skew "${values["clock-skew"]}": expected seconds`,
+        );
+    }
+
+    const base = {
+        timing: { currentTime, clockSkew },
+        allowNoExpiration: values["allow-no-expiration"],
+        requiredFlags: values["require-flag"],
+        requiredFeatures: values["require-feature"],
+        requiredKind: values["require-kind"],
+        revocation: values.revocation
+            ? await readRevocationListFile(values.revocation)
+            : undefined,
+    };
+    let config: ValidatorConfig;
+    if (values.key !== undefined) {
+        config = { ...base, publicKey: await readPublicKey(values.key) };
+    } else if (values["key-url"] !== undefined) {
+        config = {
+            ...base,
+            publicKeyUrl: values["key-url"],
+            publicKeyPins: values["key-pin"],
+        };
+    } else if (values["jwks-url"] !== undefined) {
+        config = { ...base, jwksUrl: values["jwks-url"] };
+    } else {
+        const manifest = values.manifest!;
+        const rootPublicKey = await readPublicKey(values["root-key"]!);
+        config = /^https?:\/\//.test(manifest)
+            ? { ...base, rootPublicKey, keyManifestUrl: manifest }
+            : {
+                  ...base,
+                  rootPublicKey,
+                  keyManifest: await readFileOrValue(manifest),
+              };
+    }
+
+    const token = await readToken(positionals[0]);
+    const validator = await LicenseValidator.create(realm, config);
+    const result = await validator.validate(token);
+
+    const decoded = decodeJWT(token);
+    const header = decoded.success ? decoded.data.header : null;
+    const payload = decoded.success
+        ? decoded.data.payload
+        : decodePayload(token);
+    const errors: ValidationError[] = result.valid
+        ? []
+        : (result.errors ?? [result.error]);
+    const warnings: ValidationWarning[] = result.warnings ?? [];
+    const expiration = payload
+        ? computeExpirationInfo(payload.exp, currentTime)
+        : null;
+
+    if (values.json) {
+        io.stdout(
+            `${JSON.stringify(
+                {
+                    valid: result.valid,
+                    header,
+                    payload,
+                    errors,
+                    warnings,
+                    expiration,
+                },
+                null,
+                2,
+            )}\n`,
+        );
+    } else {
+        let output = result.valid ? "Token is valid\n" : "Token is INVALID\n";
+        output += formatIssues("Errors", errors);
+        output += formatIssues("Warnings", warnings);
+        if (header) {
+            output += formatSection("Header", header);
+        }
+        if (payload) {
+            output += formatSection("Payload", payload);
+        }
+        if (expiration) {
+            output += formatExpiration(expiration);
+        }
+        io.stdout(output);
+    }
+
+    return result.valid ? EXIT_OK : exitCodeFor(result.error.code);
+}
@@ -0,0 +1,67 @@
+/**
+ * CLI exit codes
+ */
+
+import type { ValidationError, ValidationErrorCode } from "../types/index.ts";
+
+/** Command completed successfully */
+export const EXIT_OK = 0;
+
+/** Unexpected error (I/O failure, invalid key, ...) */
+export const EXIT_ERROR = 1;
+
+/** Invalid command-line usage */
+export const EXIT_USAGE = 2;
+
+/** Token could not be decoded or has an invalid header/payload */
+export const EXIT_MALFORMED = 3;
+
+/** Token signature could not be verified */
+export const EXIT_SIGNATURE = 4;
+
+/** Token is expired, not yet valid or missing an expiration */
+export const EXIT_TIMING = 5;
+
+/** Token has been revoked or suspended */
+export const EXIT_REVOKED = 6;
+
+/** Token claims do not satisfy the requirements */
+export const EXIT_CLAIMS = 7;
+
+/** Exit code for each validation failure class */
+const ERROR_EXIT_CODES: Record<ValidationErrorCode, number> = {
+    MALFORMED_TOKEN: EXIT_MALFORMED,
+    INVALID_HEADER: EXIT_MALFORMED,
+    INVALID_PAYLOAD: EXIT_MALFORMED,
+    UNSUPPORTED_VERSION: EXIT_MALFORMED,
+    SIGNATURE_VERIFICATION_FAILED: EXIT_SIGNATURE,
+    UNKNOWN_KEY_ID: EXIT_SIGNATURE,
+    KEY_NOT_ACTIVE: EXIT_SIGNATURE,
+    KEY_MANIFEST_EXPIRED: EXIT_SIGNATURE,
+    TOKEN_EXPIRED: EXIT_TIMING,
+    TOKEN_NOT_YET_VALID: EXIT_TIMING,
+    EXPIRATION_REQUIRED: EXIT_TIMING,
+    TOKEN_REVOKED: EXIT_REVOKED,
+    TOKEN_SUSPENDED: EXIT_REVOKED,
+    SIGNING_KEY_REVOKED: EXIT_REVOKED,
+    REVOCATION_UNAVAILABLE: EXIT_ERROR,
+    REVOCATION_LIST_OUTDATED: EXIT_ERROR,
+    CLAIM_MISMATCH: EXIT_CLAIMS,
+    MISSING_REQUIRED_FLAG: EXIT_CLAIMS,
+    MISSING_REQUIRED_FEATURE: EXIT_CLAIMS,
+    KIND_MISMATCH: EXIT_CLAIMS,
+    INVALID_ISSUER: EXIT_CLAIMS,
+    INVALID_AUDIENCE: EXIT_CLAIMS,
+    DOMAIN_NOT_ALLOWED: EXIT_CLAIMS,
+    CLAIM_VALIDATOR_FAILED: EXIT_ERROR,
+};
+
+/**
+ * Get the exit code for a validation error code.
+ * Custom codes from claim validators count as unsatisfied claims.
+ */
+export function exitCodeFor(code: ValidationError["code"]): number {
+    return Object.hasOwn(ERROR_EXIT_CODES, code)
+        ? ERROR_EXIT_CODES[code as ValidationErrorCode]
+        : EXIT_CLAIMS;
+}
@@ -0,0 +1,45 @@
+/**
+ * Human-readable output formatting for CLI commands
+ */
+
+import type {
+    ExpirationInfo,
+    ValidationError,
+    ValidationWarning,
+} from "../types/index.ts";
+
+/**
+ * Format a titled, indented JSON section
+ */
+export function formatSection(title: string, value: unknown): string {
+    const body = JSON.stringify(value, null, 2).replace(/\n/g, "\n  ");
+    return `${title}:\n  ${body}\n`;
+}
+
+/**
+ * Format a list of validation errors or warnings
+ */
+export function formatIssues(
+    title: string,
+    issues: (ValidationError | ValidationWarning)[],
+): string {
+    if (issues.length === 0) {
+        return "";
+    }
+    const lines = issues.map((issue) => `  [${issue.code}] ${issue.message}`);
+    return `${title}:\n${lines.join("\n")}\n`;
+}
+
+/**
+ * Format expiration information
+ */
+export function formatExpiration(info: ExpirationInfo): string {
+    if (info.expiresAt === null) {
+        return "Expiration: never\n";
+    }
+    const date = new Date(info.expiresAt * 1000).toISOString();
+    const relative = info.isExpired
+        ? `expired ${info.timeRemaining} ago`
+        : `expires in ${info.timeRemaining}`;
+    return `Expiration: ${date} (${relative})\n`;
+}
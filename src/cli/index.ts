@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+/**
+ * KeyWrit command-line entry point
+ */
+
+import { run } from "./run.ts";
+
+process.exitCode = await run(process.argv.slice(2));
@@ -0,0 +1,113 @@
+/**
+ * CLI input/output helpers
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import { parseRevocationList } from "../revocation/index.ts";
+import type { RevocationList } from "../types/index.ts";
+
+/** Output streams used by CLI commands */
+export interface CliIO {
+    stdout(text: string): void;
+    stderr(text: string): void;
+}
+
+/** IO bound to the current process */
+export const processIO: CliIO = {
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+};
+
+/**
+ * Write command output to a file, or to stdout when no file is given
+ */
+export async function writeOutput(
+    io: CliIO,
+    text: string,
+    file?: string,
+): Promise<void> {
+    const output = text.endsWith("\n") ? text : `${text}\n`;
+    if (file) {
+        await writeFile(file, output, { mode: 0o600 });
+    } else {
+        io.stdout(output);
+    }
+}
+
+/** File errors meaning the argument cannot be a path, so it is a value */
+const NOT_A_PATH_ERRORS: readonly string[] = [
+    "ENOENT",
+    "ENAMETOOLONG",
+    "ENOTDIR",
+];
+
+/** Shape of a compact JWS: three base64url segments */
+const COMPACT_JWS = /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*$/;
+
+/**
+ * Read an argument that is either a path to a file or an inline value
+ */
+export async function readFileOrValue(value: string): Promise<string> {
+    try {
+        return (await readFile(value, "utf8")).trim();
+    } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        if (code !== undefined && NOT_A_PATH_ERRORS.includes(code)) {
+            return value.trim();
+        }
+        throw error;
+    }
+}
+
+/**
+ * Read a token given inline or as a file path. Arguments shaped like a
+ * token are used as is, without looking for a file.
+ */
+export async function readTokenArgument(value: string): Promise<string> {
+    const trimmed = value.trim();
+    if (COMPACT_JWS.test(trimmed)) {
+        return trimmed;
+    }
+    return readFileOrValue(value);
+}
+
+/**
+ * Read a token given inline, as a file path, or from stdin ("-" or omitted)
+ */
+export async function readToken(value: string | undefined): Promise<string> {
+    if (value === undefined || value === "-") {
+        const chunks: Buffer[] = [];
+        for await (const chunk of process.stdin) {
+            chunks.push(chunk as Buffer);
+        }
+        return Buffer.concat(chunks).toString("utf8").trim();
+    }
+    return readTokenArgument(value);
+}
+
+/**
+ * Read and parse a JSON file
+ */
+export async function readJsonFile(file: string): Promise<unknown> {
+    const text = await readFile(file, "utf8");
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new Error(`${file} is not valid JSON`);
+    }
+}
+
+/**
+ * Read and validate a revocation list file
+ */
+export async function readRevocationListFile(
+    file: string,
+): Promise<RevocationList> {
+    const parsed = parseRevocationList(await readJsonFile(file));
+    if (!parsed.success) {
+        throw new Error(
+            `${file} is not a valid revocation list: ${parsed.errors.join("; ")}`,
+        );
+    }
+    return parsed.data;
+}
@@ -0,0 +1,80 @@
+/**
+ * CLI command dispatch
+ */
+
+import { UsageError } from "./args.ts";
+import { INSPECT_USAGE, inspect } from "./commands/inspect.ts";
+import { KEYGEN_USAGE, keygen } from "./commands/keygen.ts";
+import { MANIFEST_USAGE, manifest } from "./commands/manifest.ts";
+import { REVOKE_USAGE, revoke } from "./commands/revoke.ts";
+import { SIGN_USAGE, sign } from "./commands/sign.ts";
+import { STATUS_LIST_USAGE, statusList } from "./commands/status-list.ts";
+import { VERIFY_USAGE, verify } from "./commands/verify.ts";
+import { EXIT_ERROR, EXIT_OK, EXIT_USAGE } from "./exit-codes.ts";
+import { type CliIO, processIO } from "./io.ts";
+
+/** A CLI command, returning the process exit code */
+type Command = (args: string[], io: CliIO) => Promise<number>;
+
+const COMMANDS: Record<string, { run: Command; usage: string }> = {
+    keygen: { run: keygen, usage: KEYGEN_USAGE },
+    sign: { run: sign, usage: SIGN_USAGE },
+    verify: { run: verify, usage: VERIFY_USAGE },
+    inspect: { run: inspect, usage: INSPECT_USAGE },
+    revoke: { run: revoke, usage: REVOKE_USAGE },
+    manifest: { run: manifest, usage: MANIFEST_USAGE },
+    "status-list": { run: statusList, usage: STATUS_LIST_USAGE },
+};
+
+const USAGE = `Usage: keywrit <command> [options]
+
+Commands:
+  keygen   Generate an Ed25519 signing key pair
+  sign     Sign a license token
+  verify   Validate a license token against a public key
+  inspect  Decode a license token without verifying it
+  revoke   Maintain revocation list files
+  manifest Sign a key manifest with the root key
+  status-list
+           Maintain bitstring status list files
+
+Run "keywrit <command> --help" for command options.
+`;
+
+/**
+ * Run the CLI with the given arguments (excluding the node and script paths)
+ */
+export async function run(
+    argv: string[],
+    io: CliIO = processIO,
+): Promise<number> {
+    const [name, ...args] = argv;
+
+    if (name === undefined || name === "--help" || name === "-h") {
+        io.stdout(USAGE);
+        return name === undefined ? EXIT_USAGE : EXIT_OK;
+    }
+
+    const command = COMMANDS[name];
+    if (!command) {
+        io.stderr(`Unknown command: ${name}\n\n${USAGE}`);
+        return EXIT_USAGE;
+    }
+
+    if (args.includes("--help") || args.includes("-h")) {
+        io.stdout(command.usage);
+        return EXIT_OK;
+    }
+
+    try {
+        return await command.run(args, io);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (error instanceof UsageError) {
+            io.stderr(`keywrit ${name}: ${message}\n\n${command.usage}`);
+            return EXIT_USAGE;
+        }
+        io.stderr(`keywrit ${name}: ${message}\n`);
+        return EXIT_ERROR;
+    }
+}
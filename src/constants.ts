@@ -8,6 +8,12 @@ export const KEYWRIT_ISSUER = "keywrit";
 /** The JWT type for KeyWrit License tokens */
 export const KEYWRIT_TYPE = "KWL";
 
+/** The JWT type for KeyWrit key manifests */
+export const KEYWRIT_MANIFEST_TYPE = "KWM";
+
+/** The JWT type for KeyWrit signed revocation lists */
+export const KEYWRIT_REVOCATION_TYPE = "KWR";
+
 /** Current KeyWrit token version */
 export const KEYWRIT_VERSION = 1;
 
@@ -1,9 +1,50 @@
 /**
- * Ed25519 signature verification wrapper
+ * Ed25519 key generation, signing and verification wrapper
  * Uses @noble/ed25519 for cryptographic operations
  */
 
-import { verifyAsync as nobleVerifyAsync } from "@noble/ed25519";
+import {
+    getPublicKeyAsync as nobleGetPublicKeyAsync,
+    signAsync as nobleSignAsync,
+    utils as nobleUtils,
+    verifyAsync as nobleVerifyAsync,
+} from "@noble/ed25519";
+import type { KeyPair } from "../types/index.ts";
+
+/**
+ * Generate a new random Ed25519 key pair
+ */
+export async function generateKeyPair(): Promise<KeyPair> {
+    const privateKey = nobleUtils.randomSecretKey();
+    const publicKey = await nobleGetPublicKeyAsync(privateKey);
+    return { publicKey, privateKey };
+}
+
+/**
+ * Derive the Ed25519 public key from a private key
+ *
+ * @param privateKey - 32-byte private key (seed)
+ * @returns Promise<Uint8Array> - 32-byte public key
+ */
+export async function getPublicKey(
+    privateKey: Uint8Array,
+): Promise<Uint8Array> {
+    return nobleGetPublicKeyAsync(privateKey);
+}
+
+/**
+ * Create an Ed25519 signature
+ *
+ * @param message - Message to sign (as bytes)
+ * @param privateKey - 32-byte private key (seed)
+ * @returns Promise<Uint8Array> - 64-byte signature
+ */
+export async function sign(
+    message: Uint8Array,
+    privateKey: Uint8Array,
+): Promise<Uint8Array> {
+    return nobleSignAsync(message, privateKey);
+}
 
 /**
  * Verify an Ed25519 signature
@@ -4,28 +4,113 @@
 // Constants
 export {
     KEYWRIT_ISSUER,
+    KEYWRIT_MANIFEST_TYPE,
+    KEYWRIT_REVOCATION_TYPE,
     KEYWRIT_TYPE,
     KEYWRIT_VERSION,
     SUPPORTED_VERSIONS,
 } from "./constants.ts";
+// Key generation
+export { generateKeyPair, getPublicKey } from "./crypto/ed25519.ts";
+// License issuance
+export { LicenseIssuer, signKeyManifest } from "./issuer/index.ts";
 // Utility functions
 export { decode, decodePayload } from "./jwt/decode.ts";
+// Public key cache, pinning and key manifests
+export type { FingerprintEncoding } from "./keyring/index.ts";
+export {
+    clearPublicKeyCache,
+    DEFAULT_PUBLIC_KEY_CACHE_TTL,
+    getKeyFingerprint,
+    KeyPinMismatchError,
+    verifyKeyManifest,
+} from "./keyring/index.ts";
+// Revocation lists, providers, signing and caching
+export type {
+    RevocationListDeltaParseResult,
+    RevocationListParseOptions,
+    RevocationListParseResult,
+    StatusListRevocationProviderOptions,
+    UrlRevocationProviderOptions,
+    VerifiedRevocationList,
+    VerifiedRevocationListDelta,
+} from "./revocation/index.ts";
+export {
+    applyRevocationListDelta,
+    applyRevocationListUpdate,
+    CompositeRevocationProvider,
+    clearRevocationCache,
+    createRevocationListDelta,
+    DEFAULT_REVOCATION_CACHE_TTL,
+    DEFAULT_STATUS_LIST_SIZE,
+    MemoryRevocationStateStore,
+    parseRevocationList,
+    parseRevocationListDelta,
+    StaticRevocationProvider,
+    StatusList,
+    StatusListRevocationProvider,
+    UrlRevocationProvider,
+    verifyRevocationList,
+    verifyRevocationListDelta,
+    verifyStatusList,
+} from "./revocation/index.ts";
 // Types
 export type {
+    // Custom claim validators
+    ClaimValidator,
+    ClaimValidatorContext,
+    ClaimValidatorResult,
+    CustomErrorCode,
+    CustomWarningCode,
     DecodedJWT,
     DomainCheckResult,
+    // Keys
+    Ed25519PrivateJWK,
+    Ed25519PublicJWK,
     ExpirationInfo,
     // Flag checking
     FlagCheckResult,
+    // Issuance
+    IssueClaims,
+    IssueOptions,
+    IssuerConfig,
     // JWT structure
     JWTHeader,
+    KeyFormat,
+    KeyManifestKey,
+    KeyManifestKeyInput,
+    KeyManifestPayload,
+    KeyPair,
+    KeyWritTokenType,
     LicenseClaims,
     LicensePayload,
+    PrivateKeyInput,
     // Configuration
     PublicKeyInput,
+    RevocationCheckContext,
+    RevocationContext,
+    RevocationEntry,
+    RevocationFailurePolicy,
     RevocationList,
+    RevocationListAdditions,
+    RevocationListDelta,
+    RevocationListDeltaPayload,
+    RevocationListPayload,
+    RevocationListRemovals,
+    RevocationProvider,
+    RevocationReason,
+    RevocationStateStore,
+    RevocationStatus,
+    RevocationUpdate,
+    RevocationUpdateListener,
+    RevokedKey,
     StandardClaims,
+    StatusListDocument,
+    StatusListPayload,
+    StatusListReference,
     TimingOptions,
+    TrustedKey,
+    TrustedKeyInput,
     ValidationError,
     ValidationErrorCode,
     ValidationFailure,
@@ -35,14 +120,30 @@ export type {
     ValidationWarning,
     ValidationWarningCode,
     ValidatorConfig,
+    WithdrawnEntitlements,
 } from "./types/index.ts";
+// Key export and import
+export {
+    exportPrivateKey,
+    exportPublicKey,
+    importPrivateKey,
+    importPublicKey,
+} from "./utils/keys.ts";
 export {
     LicenseValidator,
     LicenseValidatorBound,
     LicenseValidatorUnbound,
 } from "./validators/index.ts";
 
-import type { ValidationResult, ValidatorConfig } from "./types/index.ts";
+// One-shot issuance function
+import { LicenseIssuer } from "./issuer/index.ts";
+import type {
+    IssueClaims,
+    IssueOptions,
+    IssuerConfig,
+    ValidationResult,
+    ValidatorConfig,
+} from "./types/index.ts";
 // One-shot validation function
 import { LicenseValidator } from "./validators/index.ts";
 
@@ -59,7 +160,7 @@ import { LicenseValidator } from "./validators/index.ts";
 export async function validateLicense<T = Record<string, unknown>>(
     realm: string,
     token: string,
-    config: ValidatorConfig,
+    config: ValidatorConfig<T>,
 ): Promise<ValidationResult<T>> {
     const validator = await LicenseValidator.create<T>(realm, config);
     return validator.validate(token);
@@ -79,8 +180,31 @@ export async function validateLicense<T = Record<string, unknown>>(
  */
 export async function createValidator<T = Record<string, unknown>>(
     realm: string,
-    config: ValidatorConfig,
+    config: ValidatorConfig<T>,
 ): Promise<(token: string) => Promise<ValidationResult<T>>> {
     const validator = await LicenseValidator.create<T>(realm, config);
     return (token: string) => validator.validate(token);
 }
+
+/**
+ * One-shot license signing
+ *
+ * @example
+ * ```typescript
+ * const token = await signLicense(
+ *   'my-app',
+ *   { sub: 'customer@example.com', kind: 'pro', flags: ['export'] },
+ *   { privateKey: "9d61b19deffd5a60ba844af492ec2cc4..." },
+ *   { expiresIn: 30 * 24 * 60 * 60 },
+ * );
+ * ```
+ */
+export async function signLicense<T = Record<string, unknown>>(
+    realm: string,
+    claims: IssueClaims<T>,
+    config: IssuerConfig,
+    options?: IssueOptions,
+): Promise<string> {
+    const issuer = LicenseIssuer.create<T>(realm, config);
+    return issuer.issue(claims, options);
+}
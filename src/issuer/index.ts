@@ -0,0 +1,6 @@
+/**
+ * Issuer barrel export
+ */
+
+export { LicenseIssuer } from "./issuer.ts";
+export { signKeyManifest } from "./manifest.ts";
@@ -0,0 +1,205 @@
+/**
+ * LicenseIssuer - Creates signed KeyWrit license tokens
+ */
+
+import {
+    KEYWRIT_ISSUER,
+    KEYWRIT_REVOCATION_TYPE,
+    KEYWRIT_TYPE,
+    KEYWRIT_VERSION,
+} from "../constants.ts";
+import { encodeJWT } from "../jwt/encode.ts";
+import {
+    parseRevocationList,
+    parseRevocationListDelta,
+} from "../revocation/list.ts";
+import type { StatusList } from "../revocation/status-list.ts";
+import type {
+    IssueClaims,
+    IssueOptions,
+    IssuerConfig,
+    JWTHeader,
+    KeyWritTokenType,
+    RevocationList,
+    RevocationListDelta,
+    RevocationListDeltaPayload,
+    RevocationListPayload,
+    StatusListPayload,
+} from "../types/index.ts";
+import { normalizePrivateKey } from "../utils/keys.ts";
+import { now } from "../utils/time.ts";
+
+/**
+ * License issuer - signs license claims for a single realm.
+ * Use the static factory method to create instances.
+ */
+export class LicenseIssuer<T = Record<string, unknown>> {
+    private readonly realm: string;
+    private readonly privateKey: Uint8Array;
+    private readonly kid?: string;
+
+    private constructor(realm: string, privateKey: Uint8Array, kid?: string) {
+        this.realm = realm;
+        this.privateKey = privateKey;
+        this.kid = kid;
+    }
+
+    /**
+     * Issue a signed license token.
+     * Fills in iss, iat and jti, and makes sure the realm is part of aud.
+     */
+    public async issue(
+        claims: IssueClaims<T>,
+        options: IssueOptions = {},
+    ): Promise<string> {
+        const iat = claims.iat ?? options.currentTime ?? now();
+        const exp =
+            claims.exp ??
+            (options.expiresIn !== undefined
+                ? iat + options.expiresIn
+                : undefined);
+
+        const payload = {
+            ...claims,
+            iss: KEYWRIT_ISSUER,
+            aud: includeRealm(claims.aud, this.realm),
+            iat,
+            exp,
+            jti: claims.jti ?? crypto.randomUUID(),
+        };
+
+        return encodeJWT(this.header(KEYWRIT_TYPE), payload, this.privateKey);
+    }
+
+    /**
+     * Sign a revocation list for the realm.
+     * Validators fetching it from revocationUrl verify the signature with
+     * their trusted keys before applying it.
+     */
+    public async signRevocationList(
+        list: RevocationList,
+        options: IssueOptions = {},
+    ): Promise<string> {
+        const parsed = parseRevocationList(list);
+        if (!parsed.success) {
+            throw new Error(
+                `Invalid revocation list: ${parsed.errors.join("; ")}`,
+            );
+        }
+
+        const iat = options.currentTime ?? now();
+        const payload: RevocationListPayload = {
+            iss: KEYWRIT_ISSUER,
+            aud: this.realm,
+            iat,
+            exp:
+                options.expiresIn !== undefined
+                    ? iat + options.expiresIn
+                    : undefined,
+            revocation: parsed.data,
+        };
+
+        return encodeJWT(
+            this.header(KEYWRIT_REVOCATION_TYPE),
+            payload,
+            this.privateKey,
+        );
+    }
+
+    /**
+     * Sign a revocation list delta for the realm, for serving at
+     * revocationDeltaUrl next to a signed revocation list
+     */
+    public async signRevocationListDelta(
+        delta: RevocationListDelta,
+        options: IssueOptions = {},
+    ): Promise<string> {
+        const parsed = parseRevocationListDelta(delta);
+        if (!parsed.success) {
+            throw new Error(
+                `Invalid revocation list delta: ${parsed.errors.join("; ")}`,
+            );
+        }
+
+        const iat = options.currentTime ?? now();
+        const payload: RevocationListDeltaPayload = {
+            iss: KEYWRIT_ISSUER,
+            aud: this.realm,
+            iat,
+            exp:
+                options.expiresIn !== undefined
+                    ? iat + options.expiresIn
+                    : undefined,
+            delta: parsed.data,
+        };
+
+        return encodeJWT(
+            this.header(KEYWRIT_REVOCATION_TYPE),
+            payload,
+            this.privateKey,
+        );
+    }
+
+    /**
+     * Sign a status list for the realm, for serving at the status URL of
+     * the realm's tokens
+     */
+    public async signStatusList(
+        list: StatusList,
+        options: IssueOptions = {},
+    ): Promise<string> {
+        const iat = options.currentTime ?? now();
+        const payload: StatusListPayload = {
+            iss: KEYWRIT_ISSUER,
+            aud: this.realm,
+            iat,
+            exp:
+                options.expiresIn !== undefined
+                    ? iat + options.expiresIn
+                    : undefined,
+            statusList: await list.toDocument(),
+        };
+
+        return encodeJWT(
+            this.header(KEYWRIT_REVOCATION_TYPE),
+            payload,
+            this.privateKey,
+        );
+    }
+
+    /**
+     * Build the JWT header for a token of the given type
+     */
+    private header(typ: KeyWritTokenType): JWTHeader {
+        const header: JWTHeader = { alg: "EdDSA", typ, kwv: KEYWRIT_VERSION };
+        if (this.kid !== undefined) {
+            header.kid = this.kid;
+        }
+        return header;
+    }
+
+    /**
+     * Create an issuer for the given realm.
+     */
+    public static create<T = Record<string, unknown>>(
+        realm: string,
+        config: IssuerConfig,
+    ): LicenseIssuer<T> {
+        const privateKey = normalizePrivateKey(config.privateKey);
+        return new LicenseIssuer<T>(realm, privateKey, config.kid);
+    }
+}
+
+/**
+ * Make sure the audience contains the realm the token is issued for
+ */
+function includeRealm(
+    aud: string | string[] | undefined,
+    realm: string,
+): string | string[] {
+    if (aud === undefined || aud === realm) {
+        return realm;
+    }
+    const audiences = Array.isArray(aud) ? aud : [aud];
+    return audiences.includes(realm) ? audiences : [realm, ...audiences];
+}
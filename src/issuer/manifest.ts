@@ -0,0 +1,59 @@
+/**
+ * Key manifest signing with an offline root key
+ */
+
+import {
+    KEYWRIT_ISSUER,
+    KEYWRIT_MANIFEST_TYPE,
+    KEYWRIT_VERSION,
+} from "../constants.ts";
+import { encodeJWT } from "../jwt/encode.ts";
+import { normalizeTrustedKeys } from "../keyring/trusted.ts";
+import type {
+    IssueOptions,
+    JWTHeader,
+    KeyManifestKey,
+    KeyManifestKeyInput,
+    KeyManifestPayload,
+    PrivateKeyInput,
+} from "../types/index.ts";
+import { exportPublicKey, normalizePrivateKey } from "../utils/keys.ts";
+import { now } from "../utils/time.ts";
+
+/**
+ * Sign a key manifest listing the authorized signing keys.
+ * Validators configured with the matching rootPublicKey trust these keys.
+ */
+export async function signKeyManifest(
+    keys: KeyManifestKeyInput[],
+    rootPrivateKey: PrivateKeyInput,
+    options: IssueOptions = {},
+): Promise<string> {
+    const privateKey = normalizePrivateKey(rootPrivateKey);
+    const entries: KeyManifestKey[] = normalizeTrustedKeys(
+        keys,
+        "key manifest",
+    ).map((key) => ({
+        ...key,
+        kid: key.kid!,
+        publicKey: exportPublicKey(key.publicKey, "base64url"),
+    }));
+
+    const iat = options.currentTime ?? now();
+    const header: JWTHeader = {
+        alg: "EdDSA",
+        typ: KEYWRIT_MANIFEST_TYPE,
+        kwv: KEYWRIT_VERSION,
+    };
+    const payload: KeyManifestPayload = {
+        iss: KEYWRIT_ISSUER,
+        iat,
+        exp:
+            options.expiresIn !== undefined
+                ? iat + options.expiresIn
+                : undefined,
+        keys: entries,
+    };
+
+    return encodeJWT(header, payload, privateKey);
+}
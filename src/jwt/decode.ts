@@ -3,7 +3,12 @@
  */
 
 import { KEYWRIT_TYPE, SUPPORTED_VERSIONS } from "../constants.ts";
-import type { DecodedJWT, JWTHeader, LicensePayload } from "../types/index.ts";
+import type {
+    DecodedJWT,
+    JWTHeader,
+    KeyWritTokenType,
+    LicensePayload,
+} from "../types/index.ts";
 import { decode as base64urlDecode, decodeString } from "../utils/base64url.ts";
 
 /** Validation result for decoding */
@@ -13,10 +18,12 @@ export type DecodeResult<T> =
 
 /**
  * Decode a JWT without verification
- * Returns structured error information instead of throwing
+ * Returns structured error information instead of throwing.
+ * The `typ` header must match the expected type (licenses by default).
  */
 export function decodeJWT<T = Record<string, unknown>>(
     token: string,
+    type: KeyWritTokenType = KEYWRIT_TYPE,
 ): DecodeResult<T> {
     // Split token into parts
     const parts = token.split(".");
@@ -49,10 +56,10 @@ export function decodeJWT<T = Record<string, unknown>>(
             error: `Invalid algorithm: expected EdDSA, got ${header.alg}`,
         };
     }
-    if (header.typ !== KEYWRIT_TYPE) {
+    if (header.typ !== type) {
         return {
             success: false,
-            error: `Invalid type: expected ${KEYWRIT_TYPE}, got ${header.typ}`,
+            error: `Invalid type: expected ${type}, got ${header.typ}`,
         };
     }
 
@@ -70,6 +77,14 @@ export function decodeJWT<T = Record<string, unknown>>(
         };
     }
 
+    // Validate key ID
+    if (header.kid !== undefined && typeof header.kid !== "string") {
+        return {
+            success: false,
+            error: "Invalid key ID (kid) in header: expected a string",
+        };
+    }
+
     // Decode payload
     let payload: LicensePayload<T>;
     try {
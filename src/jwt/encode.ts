@@ -0,0 +1,28 @@
+/**
+ * JWT encoding utilities
+ */
+
+import { sign as ed25519Sign } from "../crypto/ed25519.ts";
+import { encode as base64urlEncode, encodeString } from "../utils/base64url.ts";
+
+/**
+ * Encode and sign a JWT using Ed25519
+ * The header and payload are serialized as-is; callers are responsible
+ * for filling in KeyWrit-specific fields.
+ */
+export async function encodeJWT(
+    header: object,
+    payload: object,
+    privateKey: Uint8Array,
+): Promise<string> {
+    const headerB64 = encodeString(JSON.stringify(header));
+    const payloadB64 = encodeString(JSON.stringify(payload));
+    const signingInput = `${headerB64}.${payloadB64}`;
+
+    const signature = await ed25519Sign(
+        new TextEncoder().encode(signingInput),
+        privateKey,
+    );
+
+    return `${signingInput}.${base64urlEncode(signature)}`;
+}
@@ -3,18 +3,23 @@
  */
 
 import { verify as ed25519Verify } from "../crypto/ed25519.ts";
-import type { DecodedJWT, ValidationError } from "../types";
+import type { DecodedJWT, TrustedKey, ValidationError } from "../types";
 
 /** Result of signature verification */
 export type VerifyResult =
     | { success: true }
     | { success: false; error: ValidationError };
 
+/** Result of signature verification against a key ring */
+export type KeyRingVerifyResult =
+    | { success: true; key: TrustedKey }
+    | { success: false; error: ValidationError };
+
 /**
  * Verify JWT signature using Ed25519
  */
 export async function verifySignature(
-    decoded: DecodedJWT,
+    decoded: Pick<DecodedJWT, "signature" | "signingInput">,
     publicKey: Uint8Array,
 ): Promise<VerifyResult> {
     const encoder = new TextEncoder();
@@ -34,3 +39,63 @@ export async function verifySignature(
 
     return { success: true };
 }
+
+/**
+ * Select the keys that may have signed a token.
+ * Keys with a matching kid are preferred; keys without a kid act as a
+ * fallback. Tokens without a kid are checked against every key.
+ */
+export function selectKeys(
+    keys: readonly TrustedKey[],
+    kid: string | undefined,
+): TrustedKey[] {
+    if (kid === undefined) {
+        return [...keys];
+    }
+    const matching = keys.filter((key) => key.kid === kid);
+    return matching.length > 0
+        ? matching
+        : keys.filter((key) => key.kid === undefined);
+}
+
+/**
+ * Verify JWT signature against a ring of trusted keys
+ */
+export async function verifyWithKeys(
+    decoded: Pick<DecodedJWT, "header" | "signature" | "signingInput">,
+    keys: readonly TrustedKey[],
+): Promise<KeyRingVerifyResult> {
+    const kid = decoded.header.kid;
+    const candidates = selectKeys(keys, kid);
+
+    if (candidates.length === 0) {
+        return {
+            success: false,
+            error: {
+                code: "UNKNOWN_KEY_ID",
+                message: `No trusted key found for key ID "${kid}"`,
+                details: {
+                    kid,
+                    knownKeyIds: keys.flatMap((key) =>
+                        key.kid === undefined ? [] : [key.kid],
+                    ),
+                },
+            },
+        };
+    }
+
+    for (const key of candidates) {
+        const result = await verifySignature(decoded, key.publicKey);
+        if (result.success) {
+            return { success: true, key };
+        }
+    }
+
+    return {
+        success: false,
+        error: {
+            code: "SIGNATURE_VERIFICATION_FAILED",
+            message: "JWT signature verification failed",
+        },
+    };
+}
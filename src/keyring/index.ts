@@ -0,0 +1,16 @@
+/**
+ * Key ring barrel export
+ */
+
+export { fetchJwks, parseJwks } from "./jwks.ts";
+export type { KeyRingOptions, LoadedKeys } from "./keyring.ts";
+export { DEFAULT_KEY_REFRESH_COOLDOWN, KeyRing } from "./keyring.ts";
+export { fetchKeyManifest, verifyKeyManifest } from "./manifest.ts";
+export type { FingerprintEncoding } from "./pinning.ts";
+export { getKeyFingerprint, KeyPinMismatchError } from "./pinning.ts";
+export {
+    clearPublicKeyCache,
+    DEFAULT_PUBLIC_KEY_CACHE_TTL,
+    resolveKeyRing,
+    resolvePublicKey,
+} from "./resolve.ts";
@@ -0,0 +1,98 @@
+/**
+ * JSON Web Key Set (RFC 7517) support for Ed25519 keys (RFC 8037)
+ */
+
+import type { TrustedKey } from "../types/index.ts";
+import { decode as base64urlDecode } from "../utils/base64url.ts";
+import { normalizePublicKey } from "../utils/keys.ts";
+
+/** Algorithm names accepted for Ed25519 keys */
+const SUPPORTED_ALGORITHMS = ["EdDSA", "Ed25519"];
+
+/**
+ * Extract the Ed25519 signing keys from a JWKS document.
+ * Keys of other types or curves, keys meant for encryption and keys
+ * for other algorithms are skipped.
+ */
+export function parseJwks(document: unknown): TrustedKey[] {
+    const keys =
+        typeof document === "object" && document !== null
+            ? (document as { keys?: unknown }).keys
+            : undefined;
+    if (!Array.isArray(keys)) {
+        throw new Error("Invalid JWKS: expected an object with a keys array");
+    }
+
+    const result: TrustedKey[] = [];
+    const seen = new Set<string>();
+
+    for (const jwk of keys as Record<string, unknown>[]) {
+        if (typeof jwk !== "object" || jwk === null) {
+            continue;
+        }
+        if (jwk.kty !== "OKP" || jwk.crv !== "Ed25519") {
+            continue;
+        }
+        if (jwk.use !== undefined && jwk.use !== "sig") {
+            continue;
+        }
+        if (
+            jwk.alg !== undefined &&
+            !SUPPORTED_ALGORITHMS.includes(jwk.alg as string)
+        ) {
+            continue;
+        }
+        if (
+            Array.isArray(jwk.key_ops) &&
+            !(jwk.key_ops as unknown[]).includes("verify")
+        ) {
+            continue;
+        }
+        if (typeof jwk.x !== "string") {
+            continue;
+        }
+
+        let publicKey: Uint8Array;
+        try {
+            publicKey = normalizePublicKey(base64urlDecode(jwk.x));
+        } catch {
+            continue;
+        }
+
+        const kid = typeof jwk.kid === "string" ? jwk.kid : undefined;
+        if (kid !== undefined) {
+            if (seen.has(kid)) {
+                continue;
+            }
+            seen.add(kid);
+        }
+        result.push(kid === undefined ? { publicKey } : { kid, publicKey });
+    }
+
+    return result;
+}
+
+/**
+ * Fetch a JWKS document and extract its Ed25519 signing keys
+ */
+export async function fetchJwks(url: string): Promise<TrustedKey[]> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(
+            `Failed to fetch JWKS from ${url}: ${response.status} ${response.statusText}`,
+        );
+    }
+
+    let document: unknown;
+    try {
+        document = await response.json();
+    } catch {
+        throw new Error(`Invalid JWKS from ${url}: not valid JSON`);
+    }
+
+    const keys = parseJwks(document);
+    if (keys.length === 0) {
+        throw new Error(`JWKS from ${url} contains no Ed25519 signing keys`);
+    }
+    return keys;
+}
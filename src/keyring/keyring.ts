@@ -0,0 +1,123 @@
+/**
+ * KeyRing - The set of public keys trusted by a validator
+ */
+
+import type { TrustedKey, ValidationWarning } from "../types/index.ts";
+import { isPast, now } from "../utils/time.ts";
+
+/** Default minimum delay between two reloads of a remote key source (seconds) */
+export const DEFAULT_KEY_REFRESH_COOLDOWN = 30;
+
+/** Keys loaded from a key source */
+export interface LoadedKeys {
+    keys: TrustedKey[];
+    /** Time after which the keys are no longer trusted (Unix timestamp) */
+    expiresAt?: number;
+}
+
+/** Options for a key ring backed by a remote source */
+export interface KeyRingOptions {
+    /** Loads the current keys from the source */
+    loader?: () => Promise<LoadedKeys>;
+    /** Time after which the initial keys are no longer trusted (Unix timestamp) */
+    expiresAt?: number;
+    /** Minimum delay between two reloads in seconds (default: 30) */
+    cooldown?: number;
+    /** Warnings about the key source, reported with every valid result */
+    warnings?: ValidationWarning[];
+}
+
+/**
+ * Key ring holding the trusted keys.
+ * Keys loaded from a remote source can be reloaded on demand, e.g. when a
+ * token names a key ID that is not known yet.
+ */
+export class KeyRing {
+    private current: readonly TrustedKey[];
+    private currentExpiresAt?: number;
+    private readonly loader?: () => Promise<LoadedKeys>;
+    private readonly cooldown: number;
+    private lastRefresh: number;
+    private pending?: Promise<boolean>;
+    public readonly warnings: readonly ValidationWarning[];
+
+    public constructor(
+        keys: readonly TrustedKey[],
+        options: KeyRingOptions = {},
+    ) {
+        this.current = keys;
+        this.currentExpiresAt = options.expiresAt;
+        this.loader = options.loader;
+        this.cooldown = options.cooldown ?? DEFAULT_KEY_REFRESH_COOLDOWN;
+        // The first reload is never held back by the cooldown
+        this.lastRefresh = Number.NEGATIVE_INFINITY;
+        this.warnings = options.warnings ?? [];
+    }
+
+    /**
+     * The currently trusted keys
+     */
+    public get keys(): readonly TrustedKey[] {
+        return this.current;
+    }
+
+    /**
+     * Time after which the current keys are no longer trusted, if any
+     */
+    public get expiresAt(): number | undefined {
+        return this.currentExpiresAt;
+    }
+
+    /**
+     * Reload the keys from the source once they have expired.
+     * Returns false if they are still expired afterwards, e.g. because
+     * the source cannot be reloaded or serves expired keys.
+     */
+    public async checkExpiry(currentTime?: number): Promise<boolean> {
+        if (
+            this.currentExpiresAt === undefined ||
+            !isPast(this.currentExpiresAt, currentTime)
+        ) {
+            return true;
+        }
+        await this.refresh();
+        return (
+            this.currentExpiresAt === undefined ||
+            !isPast(this.currentExpiresAt, currentTime)
+        );
+    }
+
+    /**
+     * Reload the keys from the source.
+     * Returns true if new keys were loaded. Reloads within the cooldown
+     * period and failed loads keep the current keys.
+     */
+    public async refresh(): Promise<boolean> {
+        if (!this.loader || now() - this.lastRefresh < this.cooldown) {
+            return false;
+        }
+
+        // Share a single in-flight reload between concurrent callers
+        if (!this.pending) {
+            this.pending = this.reload(this.loader).finally(() => {
+                this.pending = undefined;
+            });
+        }
+        return this.pending;
+    }
+
+    /**
+     * Load keys, keeping the current ones on failure
+     */
+    private async reload(loader: () => Promise<LoadedKeys>): Promise<boolean> {
+        this.lastRefresh = now();
+        try {
+            const loaded = await loader();
+            this.current = loaded.keys;
+            this.currentExpiresAt = loaded.expiresAt;
+            return true;
+        } catch {
+            return false;
+        }
+    }
+}
@@ -0,0 +1,134 @@
+/**
+ * Signed key manifests - signing keys vouched for by an offline root key
+ */
+
+import { KEYWRIT_ISSUER, KEYWRIT_MANIFEST_TYPE } from "../constants.ts";
+import { decodeJWT } from "../jwt/decode.ts";
+import { verifySignature } from "../jwt/verify.ts";
+import type {
+    KeyManifestKey,
+    KeyManifestPayload,
+    TrustedKey,
+    TrustedKeyInput,
+} from "../types/index.ts";
+import { isPast } from "../utils/time.ts";
+import type { LoadedKeys } from "./keyring.ts";
+import { normalizeTrustedKeys } from "./trusted.ts";
+
+/**
+ * Verify a key manifest with the root key and return its signing keys.
+ * Throws if the manifest is malformed, not signed by the root key,
+ * or expired.
+ */
+export async function verifyKeyManifest(
+    manifest: string,
+    rootPublicKey: Uint8Array,
+    currentTime?: number,
+): Promise<TrustedKey[]> {
+    const { keys } = await readKeyManifest(
+        manifest,
+        rootPublicKey,
+        currentTime,
+    );
+    return keys;
+}
+
+/**
+ * Fetch and verify a key manifest
+ */
+export async function fetchKeyManifest(
+    url: string,
+    rootPublicKey: Uint8Array,
+    currentTime?: number,
+): Promise<TrustedKey[]> {
+    const { keys } = await loadKeyManifest(url, rootPublicKey, currentTime);
+    return keys;
+}
+
+/**
+ * Fetch and verify a key manifest, keeping its expiration time
+ */
+export async function loadKeyManifest(
+    url: string,
+    rootPublicKey: Uint8Array,
+    currentTime?: number,
+): Promise<LoadedKeys> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(
+            `Failed to fetch key manifest from ${url}: ${response.status} ${response.statusText}`,
+        );
+    }
+    return readKeyManifest(await response.text(), rootPublicKey, currentTime);
+}
+
+/**
+ * Verify a key manifest, keeping its expiration time.
+ * Throws under the same conditions as verifyKeyManifest.
+ */
+export async function readKeyManifest(
+    manifest: string,
+    rootPublicKey: Uint8Array,
+    currentTime?: number,
+): Promise<LoadedKeys> {
+    const decoded = decodeJWT<KeyManifestPayload>(
+        manifest.trim(),
+        KEYWRIT_MANIFEST_TYPE,
+    );
+    if (!decoded.success) {
+        throw new Error(`Invalid key manifest: ${decoded.error}`);
+    }
+
+    const verifyResult = await verifySignature(decoded.data, rootPublicKey);
+    if (!verifyResult.success) {
+        throw new Error(
+            "Invalid key manifest: signature does not match the root key",
+        );
+    }
+
+    const payload = decoded.data.payload;
+    if (payload.iss !== KEYWRIT_ISSUER) {
+        throw new Error(
+            `Invalid key manifest: expected issuer ${KEYWRIT_ISSUER}, got ${payload.iss}`,
+        );
+    }
+    if (payload.exp !== undefined && isPast(payload.exp, currentTime)) {
+        throw new Error(`Key manifest expired at ${payload.exp}`);
+    }
+    if (!Array.isArray(payload.keys)) {
+        throw new Error("Invalid key manifest: expected a keys array");
+    }
+
+    return {
+        keys: normalizeTrustedKeys(
+            payload.keys.map(toTrustedKeyInput),
+            "key manifest",
+        ),
+        expiresAt: payload.exp,
+    };
+}
+
+/**
+ * Check the shape of a manifest entry
+ */
+function toTrustedKeyInput(entry: KeyManifestKey): TrustedKeyInput {
+    if (typeof entry !== "object" || entry === null) {
+        throw new Error("Invalid key manifest: keys must be objects");
+    }
+    if (typeof entry.kid !== "string" || entry.kid === "") {
+        throw new Error("Invalid key manifest: every key needs a kid");
+    }
+    if (typeof entry.publicKey !== "string") {
+        throw new Error(
+            `Invalid key manifest: key ${entry.kid} has no publicKey`,
+        );
+    }
+    for (const field of ["notBefore", "notAfter"] as const) {
+        if (entry[field] !== undefined && typeof entry[field] !== "number") {
+            throw new Error(
+                `Invalid key manifest: ${field} of key ${entry.kid} must be a number`,
+            );
+        }
+    }
+    return entry;
+}
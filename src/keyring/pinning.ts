@@ -0,0 +1,91 @@
+/**
+ * Public key pinning by SHA-256 fingerprint
+ */
+
+import type { PublicKeyInput } from "../types/index.ts";
+import {
+    decode as base64urlDecode,
+    encode as base64urlEncode,
+} from "../utils/base64url.ts";
+import { bytesToHex, normalizePublicKey } from "../utils/keys.ts";
+
+/** Encodings supported for key fingerprints */
+export type FingerprintEncoding = "hex" | "base64url";
+
+/**
+ * Thrown when a fetched public key does not match any configured pin
+ */
+export class KeyPinMismatchError extends Error {
+    /** Hex fingerprint of the rejected key */
+    public readonly fingerprint: string;
+    /** Configured pins, normalized to hex */
+    public readonly pins: readonly string[];
+
+    public constructor(url: string, fingerprint: string, pins: string[]) {
+        super(
+            `Public key from ${url} does not match any pinned fingerprint (got ${fingerprint})`,
+        );
+        this.name = "KeyPinMismatchError";
+        this.fingerprint = fingerprint;
+        this.pins = pins;
+    }
+}
+
+/**
+ * Compute the SHA-256 fingerprint of a raw Ed25519 public key
+ */
+export async function getKeyFingerprint(
+    publicKey: PublicKeyInput,
+    encoding: FingerprintEncoding = "hex",
+): Promise<string> {
+    const digest = new Uint8Array(
+        await crypto.subtle.digest(
+            "SHA-256",
+            new Uint8Array(normalizePublicKey(publicKey)),
+        ),
+    );
+    return encoding === "hex" ? bytesToHex(digest) : base64urlEncode(digest);
+}
+
+/**
+ * Normalize a hex or base64url SHA-256 fingerprint to lowercase hex
+ */
+export function normalizeKeyPin(pin: string): string {
+    const trimmed = pin.trim();
+    if (/^[0-9a-fA-F]{64}$/.test(trimmed)) {
+        return trimmed.toLowerCase();
+    }
+
+    let bytes: Uint8Array;
+    try {
+        bytes = base64urlDecode(trimmed);
+    } catch {
+        bytes = new Uint8Array();
+    }
+    if (bytes.length !== 32) {
+        throw new Error(
+            `Invalid key pin "${pin}": expected a SHA-256 fingerprint in hex or base64url`,
+        );
+    }
+    return bytesToHex(bytes);
+}
+
+/**
+ * Check a fetched key against the configured pins.
+ * Throws KeyPinMismatchError if no pin matches.
+ */
+export async function checkKeyPins(
+    url: string,
+    publicKey: Uint8Array,
+    pins: string[],
+): Promise<void> {
+    if (pins.length === 0) {
+        throw new Error("publicKeyPins must contain at least one fingerprint");
+    }
+
+    const expected = pins.map(normalizeKeyPin);
+    const fingerprint = await getKeyFingerprint(publicKey);
+    if (!expected.includes(fingerprint)) {
+        throw new KeyPinMismatchError(url, fingerprint, expected);
+    }
+}
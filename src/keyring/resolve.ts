@@ -0,0 +1,165 @@
+/**
+ * Trusted key resolution from validator configuration
+ */
+
+import type { ValidationWarning, ValidatorConfig } from "../types/index.ts";
+import { HttpCache } from "../utils/http-cache.ts";
+import { normalizePublicKey } from "../utils/keys.ts";
+import { fetchJwks } from "./jwks.ts";
+import { KeyRing } from "./keyring.ts";
+import { loadKeyManifest, readKeyManifest } from "./manifest.ts";
+import { checkKeyPins, KeyPinMismatchError } from "./pinning.ts";
+import { normalizeTrustedKeys } from "./trusted.ts";
+
+/** Default time in seconds a key fetched from publicKeyUrl is reused */
+export const DEFAULT_PUBLIC_KEY_CACHE_TTL = 300;
+
+/** Keys fetched from publicKeyUrl, shared by all validators */
+const publicKeyCache = new HttpCache<Uint8Array>();
+
+/** A public key fetched from a URL */
+interface FetchedPublicKey {
+    publicKey: Uint8Array;
+    /** Set when the key could not be refreshed and a cached copy is used */
+    warning?: ValidationWarning;
+}
+
+/**
+ * Drop cached public keys fetched from publicKeyUrl.
+ * Clears a single URL when given, otherwise the whole cache.
+ */
+export function clearPublicKeyCache(url?: string): void {
+    publicKeyCache.clear(url);
+}
+
+/**
+ * Fetch a public key through the cache, falling back to the last good key
+ * when the refresh fails. When pins are given, the key must match one.
+ */
+async function fetchPublicKey(
+    url: string,
+    ttl = DEFAULT_PUBLIC_KEY_CACHE_TTL,
+    pins?: string[],
+): Promise<FetchedPublicKey> {
+    const cached = await publicKeyCache.fetch(url, {
+        ttl,
+        label: "public key",
+        parse: (body) => normalizePublicKey(body.trim()),
+    });
+
+    if (pins) {
+        try {
+            await checkKeyPins(url, cached.value, pins);
+        } catch (error) {
+            // Never keep serving a key that failed the pin check
+            if (error instanceof KeyPinMismatchError) {
+                publicKeyCache.clear(url);
+            }
+            throw error;
+        }
+    }
+    if (!cached.stale) {
+        return { publicKey: cached.value };
+    }
+    return {
+        publicKey: cached.value,
+        warning: {
+            code: "STALE_PUBLIC_KEY",
+            message: `Could not refresh public key from ${url} (${cached.error}); using the key fetched at ${cached.fetchedAt}`,
+            details: { url, fetchedAt: cached.fetchedAt, error: cached.error },
+        },
+    };
+}
+
+/**
+ * Resolve public key from config (either direct key or URL).
+ * Keys fetched from a URL are cached (see publicKeyCacheTtl) and checked
+ * against publicKeyPins when set.
+ */
+export async function resolvePublicKey<T>(
+    config: ValidatorConfig<T>,
+): Promise<Uint8Array> {
+    if ("publicKey" in config && config.publicKey) {
+        return normalizePublicKey(config.publicKey);
+    } else if ("publicKeyUrl" in config && config.publicKeyUrl) {
+        const fetched = await fetchPublicKey(
+            config.publicKeyUrl,
+            config.publicKeyCacheTtl,
+            config.publicKeyPins,
+        );
+        return fetched.publicKey;
+    } else {
+        throw new Error(
+            "Either publicKey, publicKeys, publicKeyUrl, jwksUrl or rootPublicKey with a key manifest must be provided",
+        );
+    }
+}
+
+/**
+ * Resolve the key ring from config (key list, JWKS URL, key manifest,
+ * direct key or URL)
+ */
+export async function resolveKeyRing<T>(
+    config: ValidatorConfig<T>,
+): Promise<KeyRing> {
+    if ("publicKeys" in config && config.publicKeys) {
+        return new KeyRing(normalizeTrustedKeys(config.publicKeys));
+    }
+    if ("jwksUrl" in config && config.jwksUrl) {
+        const jwksUrl = config.jwksUrl;
+        const loader = async () => ({ keys: await fetchJwks(jwksUrl) });
+        return new KeyRing((await loader()).keys, {
+            loader,
+            cooldown: config.jwksRefreshCooldown,
+        });
+    }
+    if ("rootPublicKey" in config && config.rootPublicKey) {
+        return resolveManifestKeyRing(config);
+    }
+    if ("publicKeyUrl" in config && config.publicKeyUrl) {
+        const { publicKey, warning } = await fetchPublicKey(
+            config.publicKeyUrl,
+            config.publicKeyCacheTtl,
+            config.publicKeyPins,
+        );
+        return new KeyRing([{ publicKey }], {
+            warnings: warning ? [warning] : undefined,
+        });
+    }
+    return new KeyRing([{ publicKey: await resolvePublicKey(config) }]);
+}
+
+/**
+ * Build a key ring from a key manifest verified with the root key.
+ * The keys expire with the manifest; a manifest from keyManifestUrl is
+ * then reloaded.
+ */
+async function resolveManifestKeyRing<T>(
+    config: ValidatorConfig<T>,
+): Promise<KeyRing> {
+    if (!("rootPublicKey" in config && config.rootPublicKey)) {
+        throw new Error("rootPublicKey is required for a key manifest");
+    }
+    const rootPublicKey = normalizePublicKey(config.rootPublicKey);
+    const currentTime = config.timing?.currentTime;
+
+    if (config.keyManifestUrl) {
+        const url = config.keyManifestUrl;
+        const loader = () => loadKeyManifest(url, rootPublicKey, currentTime);
+        const { keys, expiresAt } = await loader();
+        return new KeyRing(keys, {
+            loader,
+            expiresAt,
+            cooldown: config.keyManifestRefreshCooldown,
+        });
+    }
+    if (config.keyManifest) {
+        const { keys, expiresAt } = await readKeyManifest(
+            config.keyManifest,
+            rootPublicKey,
+            currentTime,
+        );
+        return new KeyRing(keys, { expiresAt });
+    }
+    throw new Error("Either keyManifest or keyManifestUrl must be provided");
+}
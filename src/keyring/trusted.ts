@@ -0,0 +1,52 @@
+/**
+ * Normalization of trusted key entries
+ */
+
+import type { TrustedKey, TrustedKeyInput } from "../types/index.ts";
+import { normalizePublicKey } from "../utils/keys.ts";
+
+/**
+ * Normalize key ring entries, rejecting empty rings and duplicate key IDs.
+ * The source names where the keys came from in error messages.
+ */
+export function normalizeTrustedKeys(
+    inputs: TrustedKeyInput[],
+    source = "publicKeys",
+): TrustedKey[] {
+    if (inputs.length === 0) {
+        throw new Error(`${source} must contain at least one key`);
+    }
+
+    const seen = new Set<string>();
+    return inputs.map((input) => {
+        if (input.kid !== undefined) {
+            if (seen.has(input.kid)) {
+                throw new Error(`Duplicate key ID in ${source}: ${input.kid}`);
+            }
+            seen.add(input.kid);
+        }
+        if (
+            input.notBefore !== undefined &&
+            input.notAfter !== undefined &&
+            input.notBefore > input.notAfter
+        ) {
+            throw new Error(
+                `Invalid validity window for key ${input.kid ?? "(no kid)"}: notBefore is after notAfter`,
+            );
+        }
+
+        const key: TrustedKey = {
+            publicKey: normalizePublicKey(input.publicKey),
+        };
+        if (input.kid !== undefined) {
+            key.kid = input.kid;
+        }
+        if (input.notBefore !== undefined) {
+            key.notBefore = input.notBefore;
+        }
+        if (input.notAfter !== undefined) {
+            key.notAfter = input.notAfter;
+        }
+        return key;
+    });
+}
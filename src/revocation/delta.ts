@@ -0,0 +1,226 @@
+/**
+ * Revocation list deltas - changes between two sequence numbers
+ */
+
+import type {
+    RevocationEntry,
+    RevocationList,
+    RevocationListAdditions,
+    RevocationListDelta,
+    RevocationListRemovals,
+    RevokedKey,
+} from "../types/index.ts";
+import { entryId } from "./list.ts";
+
+/**
+ * Apply a delta to the list it was created for and return the new list.
+ * Throws if the list's sequence number is not the delta's `since`.
+ */
+export function applyRevocationListDelta(
+    list: RevocationList,
+    delta: RevocationListDelta,
+): RevocationList {
+    if (list.seq !== delta.since) {
+        throw new Error(
+            `Revocation list delta applies to sequence ${delta.since}, not ${list.seq ?? "(none)"}`,
+        );
+    }
+    const add = delta.add ?? {};
+    const remove = delta.remove ?? {};
+    const result: RevocationList = {};
+
+    for (const field of ["jti", "sub"] as const) {
+        const added = add[field] ?? [];
+        const replaced = new Set([
+            ...(remove[field] ?? []),
+            ...added.map(entryId),
+        ]);
+        const entries = [
+            ...(list[field] ?? []).filter(
+                (entry) => !replaced.has(entryId(entry)),
+            ),
+            ...added,
+        ];
+        if (entries.length > 0) {
+            result[field] = entries;
+        }
+    }
+
+    const keys = (list.keys ?? []).filter(
+        (key) =>
+            !remove.keys?.some((removed) => sameKey(key, removed)) &&
+            !add.keys?.some((added) => sameKey(key, added)),
+    );
+    keys.push(...(add.keys ?? []));
+    if (keys.length > 0) {
+        result.keys = keys;
+    }
+
+    const issuedBefore =
+        add.issuedBefore ??
+        (remove.issuedBefore ? undefined : list.issuedBefore);
+    if (issuedBefore !== undefined) {
+        result.issuedBefore = issuedBefore;
+    }
+    const removedSubs = new Set(remove.subIssuedBefore);
+    const cutoffs = {
+        ...Object.fromEntries(
+            Object.entries(list.subIssuedBefore ?? {}).filter(
+                ([sub]) => !removedSubs.has(sub),
+            ),
+        ),
+        ...add.subIssuedBefore,
+    };
+    if (Object.keys(cutoffs).length > 0) {
+        result.subIssuedBefore = cutoffs;
+    }
+
+    if (delta.iat !== undefined) {
+        result.iat = delta.iat;
+    }
+    result.seq = delta.seq;
+    if (delta.nextUpdate !== undefined) {
+        result.nextUpdate = delta.nextUpdate;
+    }
+    return result;
+}
+
+/**
+ * Create the delta that turns one revocation list into a later one.
+ * Both lists need sequence numbers.
+ */
+export function createRevocationListDelta(
+    from: RevocationList,
+    to: RevocationList,
+): RevocationListDelta {
+    if (from.seq === undefined || to.seq === undefined) {
+        throw new Error("Revocation list deltas require lists with a seq");
+    }
+    if (to.seq < from.seq) {
+        throw new Error(
+            `Revocation list sequence ${to.seq} is older than ${from.seq}`,
+        );
+    }
+
+    const add: RevocationListAdditions = {};
+    const remove: RevocationListRemovals = {};
+
+    for (const field of ["jti", "sub"] as const) {
+        const before = new Map(
+            (from[field] ?? []).map((entry) => [entryId(entry), entry]),
+        );
+        const after = new Map(
+            (to[field] ?? []).map((entry) => [entryId(entry), entry]),
+        );
+        const added = [...after.values()].filter((entry) => {
+            const previous = before.get(entryId(entry));
+            return previous === undefined || !sameEntry(previous, entry);
+        });
+        const removed = [...before.keys()].filter((id) => !after.has(id));
+        if (added.length > 0) {
+            add[field] = added;
+        }
+        if (removed.length > 0) {
+            remove[field] = removed;
+        }
+    }
+
+    const addedKeys = (to.keys ?? []).filter(
+        (key) =>
+            !from.keys?.some(
+                (previous) =>
+                    sameKey(key, previous) &&
+                    key.compromisedAt === previous.compromisedAt,
+            ),
+    );
+    const removedKeys = (from.keys ?? []).filter(
+        (key) => !to.keys?.some((current) => sameKey(key, current)),
+    );
+    if (addedKeys.length > 0) {
+        add.keys = addedKeys;
+    }
+    if (removedKeys.length > 0) {
+        remove.keys = removedKeys.map(({ kid, fingerprint }) =>
+            kid !== undefined && fingerprint !== undefined
+                ? { kid, fingerprint }
+                : kid !== undefined
+                  ? { kid }
+                  : { fingerprint },
+        );
+    }
+
+    if (to.issuedBefore !== from.issuedBefore) {
+        if (to.issuedBefore === undefined) {
+            remove.issuedBefore = true;
+        } else {
+            add.issuedBefore = to.issuedBefore;
+        }
+    }
+    const before = from.subIssuedBefore ?? {};
+    const after = to.subIssuedBefore ?? {};
+    const addedCutoffs = Object.entries(after).filter(
+        ([sub, cutoff]) =>
+            !Object.hasOwn(before, sub) || before[sub] !== cutoff,
+    );
+    const removedCutoffs = Object.keys(before).filter(
+        (sub) => !Object.hasOwn(after, sub),
+    );
+    if (addedCutoffs.length > 0) {
+        add.subIssuedBefore = Object.fromEntries(addedCutoffs);
+    }
+    if (removedCutoffs.length > 0) {
+        remove.subIssuedBefore = removedCutoffs;
+    }
+
+    const delta: RevocationListDelta = { since: from.seq, seq: to.seq };
+    if (to.iat !== undefined) {
+        delta.iat = to.iat;
+    }
+    if (to.nextUpdate !== undefined) {
+        delta.nextUpdate = to.nextUpdate;
+    }
+    if (Object.keys(add).length > 0) {
+        delta.add = add;
+    }
+    if (Object.keys(remove).length > 0) {
+        delta.remove = remove;
+    }
+    return delta;
+}
+
+/**
+ * Check whether two revoked key entries name the same key
+ */
+function sameKey(a: RevokedKey, b: RevokedKey): boolean {
+    return a.kid === b.kid && a.fingerprint === b.fingerprint;
+}
+
+/**
+ * Check whether two jti or sub entries are identical, details included
+ */
+function sameEntry(
+    a: string | RevocationEntry,
+    b: string | RevocationEntry,
+): boolean {
+    if (typeof a === "string" || typeof b === "string") {
+        return a === b;
+    }
+    return (
+        a.id === b.id &&
+        a.reason === b.reason &&
+        a.revokedAt === b.revokedAt &&
+        a.until === b.until &&
+        sameNames(a.flags, b.flags) &&
+        sameNames(a.features, b.features)
+    );
+}
+
+/**
+ * Check whether two optional lists of flags or feature keys are identical
+ */
+function sameNames(a?: string[], b?: string[]): boolean {
+    return (
+        a?.length === b?.length &&
+        (a ?? []).every((name, index) => name === b?.[index])
+    );
+}
@@ -0,0 +1,329 @@
+/**
+ * Revocation list fetching with a shared per-URL cache
+ */
+
+import type {
+    RevocationList,
+    RevocationListDelta,
+    RevocationStateStore,
+    TrustedKey,
+} from "../types/index.ts";
+import { type CachedResponse, HttpCache } from "../utils/http-cache.ts";
+import { bytesToHex } from "../utils/keys.ts";
+import { applyRevocationListDelta } from "./delta.ts";
+import {
+    freezeRevocationList,
+    parseRevocationList,
+    parseRevocationListDelta,
+} from "./list.ts";
+import { verifyRevocationList, verifyRevocationListDelta } from "./signed.ts";
+import { checkSequence, defaultRevocationStateStore } from "./state.ts";
+import { clearStatusListCache } from "./status-list.ts";
+
+/** Default time in seconds a fetched revocation list is reused */
+export const DEFAULT_REVOCATION_CACHE_TTL = 60;
+
+/** A fetched revocation list, and the key and realm it was signed with, if any */
+interface FetchedRevocationList {
+    list: RevocationList;
+    /** Hex-encoded public key that signed the list */
+    signedBy?: string;
+    /** Realm the signed list was issued for */
+    realm?: string;
+}
+
+/** Revocation lists fetched from revocationUrl, shared by all validators */
+const revocationCache = new HttpCache<FetchedRevocationList>();
+
+/** Options for fetching a revocation list */
+export interface RevocationFetchOptions {
+    /** Seconds a fetched list is reused (default: 60) */
+    ttl?: number;
+    /** Seconds an expired list is still served while it is refreshed */
+    staleWhileRevalidate?: number;
+    /** Refetch even if the cached list is fresh */
+    force?: boolean;
+    /** Keys that may sign the list; signed lists are refused without them */
+    keys?: readonly TrustedKey[];
+    /** Realm a signed list must be issued for */
+    realm?: string;
+    /** Refuse lists that are not signed by one of the keys */
+    requireSignature?: boolean;
+    /** Where the newest sequence number seen is kept (default: in memory) */
+    stateStore?: RevocationStateStore;
+    /**
+     * URL serving the changes since the sequence number in its `since`
+     * query parameter; used to update a cached list with a seq
+     */
+    deltaUrl?: string;
+}
+
+/**
+ * Fetch a revocation list through the cache.
+ * Signed lists are verified with the given keys, and lists older than the
+ * newest one seen are refused, before they are cached. With a deltaUrl,
+ * an expired list is updated from the delta, and fetched in full when the
+ * delta cannot be applied.
+ * Throws if the list cannot be fetched or is invalid and nothing is cached,
+ * or if the cached list is not signed as required or was rolled back.
+ */
+export async function fetchRevocationList(
+    url: string,
+    options: RevocationFetchOptions = {},
+): Promise<CachedResponse<RevocationList>> {
+    const stateStore = options.stateStore ?? defaultRevocationStateStore;
+    const cached =
+        (await fetchRevocationListDelta(url, options, stateStore)) ??
+        (await revocationCache.fetch(url, {
+            ttl: options.ttl ?? DEFAULT_REVOCATION_CACHE_TTL,
+            staleWhileRevalidate: options.staleWhileRevalidate,
+            force: options.force,
+            label: "revocation list",
+            parse: async (body) => {
+                // Once a URL served a signed list, an unsigned one is a downgrade
+                const fetched = await parseRevocationListBody(
+                    body,
+                    options,
+                    revocationCache.peek(url)?.value.signedBy !== undefined,
+                );
+                await checkSequence(url, fetched.list, stateStore);
+                return fetched;
+            },
+        }));
+
+    // The cache is shared, so the list may have been verified for another validator
+    const { signedBy, realm } = cached.value;
+    if (options.requireSignature && !signedBy) {
+        throw new Error(`Revocation list from ${url} is not signed`);
+    }
+    if (
+        signedBy &&
+        options.keys &&
+        !options.keys.some((key) => bytesToHex(key.publicKey) === signedBy)
+    ) {
+        throw new Error(
+            `Revocation list from ${url} is not signed by a trusted key`,
+        );
+    }
+    if (signedBy && options.realm !== undefined && realm !== options.realm) {
+        throw new Error(
+            `Revocation list from ${url} was issued for realm ${realm}, expected ${options.realm}`,
+        );
+    }
+    await checkSequence(url, cached.value.list, stateStore);
+    return { ...cached, value: cached.value.list };
+}
+
+/**
+ * Drop cached revocation and status lists, and the sequence numbers
+ * remembered by the default state store.
+ * Clears a single URL when given, otherwise the whole cache.
+ */
+export function clearRevocationCache(url?: string): void {
+    revocationCache.clear(url);
+    clearStatusListCache(url);
+    defaultRevocationStateStore.clear(url);
+}
+
+/**
+ * Update an expired cached list from the delta URL.
+ * Returns null when the full list has to be fetched instead: nothing with
+ * a seq is cached, or the delta is unavailable, invalid, or does not start
+ * at the cached list (the server no longer has changes that far back).
+ */
+async function fetchRevocationListDelta(
+    url: string,
+    options: RevocationFetchOptions,
+    stateStore: RevocationStateStore,
+): Promise<CachedResponse<FetchedRevocationList> | null> {
+    const cached = revocationCache.peek(url);
+    if (
+        !options.deltaUrl ||
+        !cached ||
+        (cached.fresh && !options.force) ||
+        cached.value.list.seq === undefined
+    ) {
+        return null;
+    }
+
+    try {
+        const deltaUrl = new URL(options.deltaUrl);
+        deltaUrl.searchParams.set("since", String(cached.value.list.seq));
+        const response = await fetch(deltaUrl);
+        if (!response.ok) {
+            return null;
+        }
+        const { delta, signedBy } = await parseRevocationListDeltaBody(
+            await response.text(),
+            options,
+            cached.value.signedBy !== undefined,
+        );
+        if (delta.since !== cached.value.list.seq) {
+            return null;
+        }
+        return await storeRevocationListDelta(
+            url,
+            cached.value,
+            { delta, signedBy },
+            options,
+            stateStore,
+        );
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Apply a revocation list delta pushed by the server, such as an event
+ * from an events URL, to the cached list.
+ * Deltas the cached list already includes are ignored. The full list is
+ * fetched instead when nothing with a seq is cached, or the delta does not
+ * start at the cached list.
+ * Returns the updated list, or null if nothing changed. Throws if the
+ * delta is invalid or the full list cannot be fetched.
+ */
+export async function applyRevocationListUpdate(
+    url: string,
+    body: string,
+    options: RevocationFetchOptions = {},
+): Promise<RevocationList | null> {
+    const stateStore = options.stateStore ?? defaultRevocationStateStore;
+    const cached = revocationCache.peek(url);
+    const seq = cached?.value.list.seq;
+    if (cached && seq !== undefined) {
+        const parsed = await parseRevocationListDeltaBody(
+            body,
+            options,
+            cached.value.signedBy !== undefined,
+        );
+        if (parsed.delta.seq <= seq) {
+            return null;
+        }
+        if (parsed.delta.since === seq) {
+            const updated = await storeRevocationListDelta(
+                url,
+                cached.value,
+                parsed,
+                options,
+                stateStore,
+            );
+            return updated.value.list;
+        }
+    }
+
+    const fetched = await fetchRevocationList(url, { ...options, force: true });
+    if (fetched.stale) {
+        throw new Error(
+            `Failed to fetch revocation list from ${url}: ${fetched.error}`,
+        );
+    }
+    return fetched.value;
+}
+
+/**
+ * Apply a delta to a cached list and cache the result.
+ * The result counts as signed only if both the list and delta are.
+ */
+async function storeRevocationListDelta(
+    url: string,
+    cached: FetchedRevocationList,
+    { delta, signedBy }: { delta: RevocationListDelta; signedBy?: string },
+    options: RevocationFetchOptions,
+    stateStore: RevocationStateStore,
+): Promise<CachedResponse<FetchedRevocationList>> {
+    const list = freezeRevocationList(
+        applyRevocationListDelta(cached.list, delta),
+    );
+    await checkSequence(url, list, stateStore);
+    return revocationCache.set(
+        url,
+        cached.signedBy && signedBy
+            ? { list, signedBy, realm: cached.realm }
+            : { list },
+        options.ttl ?? DEFAULT_REVOCATION_CACHE_TTL,
+    );
+}
+
+/**
+ * Parse and validate a fetched revocation list delta, verifying it if it
+ * is signed. Deltas to signed lists must be signed as well.
+ */
+async function parseRevocationListDeltaBody(
+    body: string,
+    options: RevocationFetchOptions,
+    requireSignature: boolean,
+): Promise<{ delta: RevocationListDelta; signedBy?: string }> {
+    if (!body.trimStart().startsWith("{")) {
+        if (!options.keys || options.realm === undefined) {
+            throw new Error(
+                "Signed revocation list delta cannot be verified without trusted keys",
+            );
+        }
+        const verified = await verifyRevocationListDelta(
+            body,
+            options.keys,
+            options.realm,
+        );
+        return {
+            delta: verified.delta,
+            signedBy: bytesToHex(verified.key.publicKey),
+        };
+    }
+    if (requireSignature || options.requireSignature) {
+        throw new Error("Revocation list delta is not signed");
+    }
+
+    const parsed = parseRevocationListDelta(JSON.parse(body));
+    if (!parsed.success) {
+        throw new Error(
+            `Invalid revocation list delta: ${parsed.errors.join("; ")}`,
+        );
+    }
+    return { delta: parsed.data };
+}
+
+/**
+ * Parse and validate a fetched revocation list, verifying it if it is
+ * signed. The list is frozen so that its entries can be indexed.
+ * Lists replacing a signed list must be signed as well.
+ */
+async function parseRevocationListBody(
+    body: string,
+    options: RevocationFetchOptions,
+    requireSignature: boolean,
+): Promise<FetchedRevocationList> {
+    if (!body.trimStart().startsWith("{")) {
+        if (!options.keys || options.realm === undefined) {
+            throw new Error(
+                "Signed revocation list cannot be verified without trusted keys",
+            );
+        }
+        const verified = await verifyRevocationList(
+            body,
+            options.keys,
+            options.realm,
+        );
+        return {
+            list: freezeRevocationList(verified.list),
+            signedBy: bytesToHex(verified.key.publicKey),
+            realm: options.realm,
+        };
+    }
+    if (requireSignature || options.requireSignature) {
+        throw new Error("Revocation list is not signed");
+    }
+
+    let value: unknown;
+    try {
+        value = JSON.parse(body);
+    } catch {
+        throw new Error("Revocation list is not valid JSON");
+    }
+
+    // Newer publishers may add fields; skipping them keeps revocation working
+    const parsed = parseRevocationList(value, { ignoreUnknownFields: true });
+    if (!parsed.success) {
+        throw new Error(`Invalid revocation list: ${parsed.errors.join("; ")}`);
+    }
+    return { list: freezeRevocationList(parsed.data) };
+}
@@ -0,0 +1,74 @@
+/**
+ * Revocation barrel export
+ */
+
+export {
+    applyRevocationListDelta,
+    createRevocationListDelta,
+} from "./delta.ts";
+export type { RevocationFetchOptions } from "./fetch.ts";
+export {
+    applyRevocationListUpdate,
+    clearRevocationCache,
+    DEFAULT_REVOCATION_CACHE_TTL,
+    fetchRevocationList,
+} from "./fetch.ts";
+export { findRevokedKey } from "./keys.ts";
+export type {
+    RevocationListDeltaParseResult,
+    RevocationListParseOptions,
+    RevocationListParseResult,
+} from "./list.ts";
+export {
+    entryId,
+    findEntry,
+    freezeRevocationList,
+    parseRevocationList,
+    parseRevocationListDelta,
+} from "./list.ts";
+export type { RevocationListStatus } from "./policy.ts";
+export {
+    DEFAULT_REVOCATION_FAILURE_POLICY,
+    loadRevocationList,
+    loadStatusList,
+    revocationUnavailable,
+} from "./policy.ts";
+export type {
+    StatusListRevocationProviderOptions,
+    UrlRevocationProviderOptions,
+} from "./providers.ts";
+export {
+    CompositeRevocationProvider,
+    StaticRevocationProvider,
+    StatusListRevocationProvider,
+    UrlRevocationProvider,
+} from "./providers.ts";
+export { resolveRevocationProvider } from "./resolve.ts";
+export type {
+    VerifiedRevocationList,
+    VerifiedRevocationListDelta,
+    VerifiedStatusList,
+} from "./signed.ts";
+export {
+    verifyRevocationList,
+    verifyRevocationListDelta,
+    verifyStatusList,
+} from "./signed.ts";
+export { MemoryRevocationStateStore } from "./state.ts";
+export type {
+    ReadonlyStatusList,
+    StatusListFetchOptions,
+} from "./status-list.ts";
+export {
+    checkStatusClaim,
+    clearStatusListCache,
+    DEFAULT_STATUS_LIST_CACHE_TTL,
+    DEFAULT_STATUS_LIST_SIZE,
+    fetchStatusList,
+    StatusList,
+} from "./status-list.ts";
+export {
+    isPartialEntry,
+    mergeWithdrawals,
+    withdrawEntitlements,
+} from "./withdraw.ts";
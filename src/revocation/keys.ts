@@ -0,0 +1,40 @@
+/**
+ * Signing key revocation
+ */
+
+import { getKeyFingerprint, normalizeKeyPin } from "../keyring/pinning.ts";
+import type { RevokedKey, TrustedKey } from "../types/index.ts";
+
+/**
+ * Find the revocation entry matching the key that signed a token.
+ * Entries with a compromisedAt only apply to tokens issued at or after
+ * it; tokens without iat cannot prove they predate the compromise.
+ */
+export async function findRevokedKey(
+    entries: readonly RevokedKey[],
+    key: TrustedKey,
+    iat: number | undefined,
+): Promise<RevokedKey | undefined> {
+    let fingerprint: string | undefined;
+
+    for (const entry of entries) {
+        if (entry.kid !== undefined && entry.kid !== key.kid) {
+            continue;
+        }
+        if (entry.fingerprint !== undefined) {
+            fingerprint ??= await getKeyFingerprint(key.publicKey);
+            if (normalizeKeyPin(entry.fingerprint) !== fingerprint) {
+                continue;
+            }
+        }
+        if (
+            entry.compromisedAt !== undefined &&
+            iat !== undefined &&
+            iat < entry.compromisedAt
+        ) {
+            continue;
+        }
+        return entry;
+    }
+    return undefined;
+}
@@ -0,0 +1,474 @@
+/**
+ * Revocation list parsing and validation
+ */
+
+import { normalizeKeyPin } from "../keyring/pinning.ts";
+import type {
+    RevocationEntry,
+    RevocationList,
+    RevocationListDelta,
+} from "../types/index.ts";
+
+/** Result of parsing a revocation list */
+export type RevocationListParseResult =
+    | { success: true; data: RevocationList }
+    | { success: false; errors: string[] };
+
+/** Options for parsing a revocation list */
+export interface RevocationListParseOptions {
+    /**
+     * Drop unknown top-level fields instead of reporting them, e.g. for
+     * lists fetched from a publisher that knows fields this version does not
+     */
+    ignoreUnknownFields?: boolean;
+}
+
+/** Result of parsing a revocation list delta */
+export type RevocationListDeltaParseResult =
+    | { success: true; data: RevocationListDelta }
+    | { success: false; errors: string[] };
+
+/** Fields holding lists of revoked identifiers */
+const ENTRY_FIELDS = ["jti", "sub"] as const;
+
+/** Fields holding timestamps and counters */
+const NUMBER_FIELDS = ["issuedBefore", "iat", "seq", "nextUpdate"] as const;
+
+/** Every field of a revocation list */
+const KNOWN_FIELDS: readonly string[] = [
+    ...ENTRY_FIELDS,
+    ...NUMBER_FIELDS,
+    "keys",
+    "subIssuedBefore",
+];
+
+/** Fields of a detailed jti or sub entry */
+const ENTRY_DETAIL_FIELDS: readonly string[] = [
+    "id",
+    "reason",
+    "revokedAt",
+    "until",
+    "flags",
+    "features",
+];
+
+/** Known revocation reasons */
+const REVOCATION_REASONS: readonly string[] = [
+    "refund",
+    "chargeback",
+    "key_compromise",
+    "superseded",
+];
+
+/** Fields of a revoked key entry */
+const KEY_FIELDS: readonly string[] = ["kid", "fingerprint", "compromisedAt"];
+
+/** Every field of a revocation list delta */
+const DELTA_FIELDS: readonly string[] = [
+    "since",
+    "seq",
+    "iat",
+    "nextUpdate",
+    "add",
+    "remove",
+];
+
+/** Fields a delta can add or remove */
+const DELTA_CHANGE_FIELDS: readonly string[] = [
+    ...ENTRY_FIELDS,
+    "keys",
+    "issuedBefore",
+    "subIssuedBefore",
+];
+
+/**
+ * Validate that a value has the shape of a RevocationList.
+ * Unknown fields are reported so that typos do not silently disable
+ * revocation, unless ignoreUnknownFields is set.
+ */
+export function parseRevocationList(
+    value: unknown,
+    options: RevocationListParseOptions = {},
+): RevocationListParseResult {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return {
+            success: false,
+            errors: ["Revocation list must be a JSON object"],
+        };
+    }
+
+    const errors: string[] = [];
+    const record = value as Record<string, unknown>;
+
+    for (const field of ENTRY_FIELDS) {
+        errors.push(...checkEntries(record[field], field, true));
+    }
+    errors.push(...checkRevokedKeys(record.keys, "keys"));
+
+    for (const field of NUMBER_FIELDS) {
+        const value = record[field];
+        if (value !== undefined && !isNonNegativeInteger(value)) {
+            errors.push(`"${field}" must be a non-negative integer`);
+        }
+    }
+
+    const cutoffs = record.subIssuedBefore;
+    if (cutoffs !== undefined) {
+        if (
+            typeof cutoffs !== "object" ||
+            cutoffs === null ||
+            Array.isArray(cutoffs)
+        ) {
+            errors.push(
+                '"subIssuedBefore" must be an object mapping subjects to timestamps',
+            );
+        } else {
+            for (const [sub, cutoff] of Object.entries(cutoffs)) {
+                if (!isNonNegativeInteger(cutoff)) {
+                    errors.push(
+                        `"subIssuedBefore.${sub}" must be a non-negative integer`,
+                    );
+                }
+            }
+        }
+    }
+
+    const unknownFields = Object.keys(record).filter(
+        (field) => !KNOWN_FIELDS.includes(field),
+    );
+    if (!options.ignoreUnknownFields) {
+        for (const field of unknownFields) {
+            errors.push(`Unknown field "${field}"`);
+        }
+    }
+
+    if (errors.length > 0) {
+        return { success: false, errors };
+    }
+    if (unknownFields.length > 0) {
+        return {
+            success: true,
+            data: Object.fromEntries(
+                Object.entries(record).filter(([field]) =>
+                    KNOWN_FIELDS.includes(field),
+                ),
+            ) as RevocationList,
+        };
+    }
+    return { success: true, data: record as RevocationList };
+}
+
+/**
+ * Validate that a value has the shape of a RevocationListDelta
+ */
+export function parseRevocationListDelta(
+    value: unknown,
+): RevocationListDeltaParseResult {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return {
+            success: false,
+            errors: ["Revocation list delta must be a JSON object"],
+        };
+    }
+
+    const errors: string[] = [];
+    const record = value as Record<string, unknown>;
+
+    for (const field of ["since", "seq"]) {
+        if (!isNonNegativeInteger(record[field])) {
+            errors.push(`"${field}" must be a non-negative integer`);
+        }
+    }
+    if (
+        errors.length === 0 &&
+        (record.seq as number) < (record.since as number)
+    ) {
+        errors.push('"seq" must not be smaller than "since"');
+    }
+    for (const field of ["iat", "nextUpdate"]) {
+        if (
+            record[field] !== undefined &&
+            !isNonNegativeInteger(record[field])
+        ) {
+            errors.push(`"${field}" must be a non-negative integer`);
+        }
+    }
+
+    if (record.add !== undefined) {
+        const parsed = parseRevocationList(record.add);
+        if (!parsed.success) {
+            errors.push(...parsed.errors.map((error) => `add: ${error}`));
+        } else {
+            errors.push(...checkChangeFields(parsed.data, "add"));
+        }
+    }
+
+    const remove = record.remove;
+    if (remove !== undefined) {
+        if (
+            typeof remove !== "object" ||
+            remove === null ||
+            Array.isArray(remove)
+        ) {
+            errors.push('"remove" must be an object');
+        } else {
+            const removals = remove as Record<string, unknown>;
+            for (const field of [...ENTRY_FIELDS, "subIssuedBefore"]) {
+                errors.push(
+                    ...checkEntries(removals[field], `remove.${field}`),
+                );
+            }
+            errors.push(...checkRevokedKeys(removals.keys, "remove.keys"));
+            if (
+                removals.issuedBefore !== undefined &&
+                typeof removals.issuedBefore !== "boolean"
+            ) {
+                errors.push('"remove.issuedBefore" must be a boolean');
+            }
+            errors.push(...checkChangeFields(removals, "remove"));
+        }
+    }
+
+    for (const field of Object.keys(record)) {
+        if (!DELTA_FIELDS.includes(field)) {
+            errors.push(`Unknown field "${field}"`);
+        }
+    }
+
+    if (errors.length > 0) {
+        return { success: false, errors };
+    }
+    return { success: true, data: record as unknown as RevocationListDelta };
+}
+
+/**
+ * Report fields that a delta cannot add or remove
+ */
+function checkChangeFields(changes: object, path: string): string[] {
+    return Object.keys(changes)
+        .filter((field) => !DELTA_CHANGE_FIELDS.includes(field))
+        .map((field) => `Unknown field "${path}.${field}"`);
+}
+
+/**
+ * Check the shape of a list of revoked identifiers.
+ * With `detailed`, entries may also be objects with revocation details.
+ */
+function checkEntries(
+    entries: unknown,
+    path: string,
+    detailed = false,
+): string[] {
+    if (entries === undefined) {
+        return [];
+    }
+    if (!Array.isArray(entries)) {
+        return [`"${path}" must be an array of strings`];
+    }
+    const seen = new Set<string>();
+    return entries.flatMap((entry, index) => {
+        if (detailed && typeof entry === "object" && entry !== null) {
+            const errors = checkEntryDetails(entry, `${path}[${index}]`);
+            return errors.length > 0
+                ? errors
+                : checkDuplicate(seen, (entry as RevocationEntry).id, path);
+        }
+        if (typeof entry !== "string" || entry === "") {
+            return [`"${path}[${index}]" must be a non-empty string`];
+        }
+        return detailed ? checkDuplicate(seen, entry, path) : [];
+    });
+}
+
+/**
+ * Report an id listed more than once, since only one entry can apply
+ */
+function checkDuplicate(seen: Set<string>, id: string, path: string): string[] {
+    if (seen.has(id)) {
+        return [`"${path}" lists "${id}" more than once`];
+    }
+    seen.add(id);
+    return [];
+}
+
+/**
+ * Check the shape of a detailed jti or sub entry
+ */
+function checkEntryDetails(entry: object, path: string): string[] {
+    if (Array.isArray(entry)) {
+        return [`"${path}" must be a non-empty string or an object`];
+    }
+
+    const errors: string[] = [];
+    const { id, reason, revokedAt, until, flags, features } = entry as Record<
+        string,
+        unknown
+    >;
+    if (typeof id !== "string" || id === "") {
+        errors.push(`"${path}.id" must be a non-empty string`);
+    }
+    if (
+        reason !== undefined &&
+        (typeof reason !== "string" || !REVOCATION_REASONS.includes(reason))
+    ) {
+        errors.push(
+            `"${path}.reason" must be one of ${REVOCATION_REASONS.join(", ")}`,
+        );
+    }
+    if (revokedAt !== undefined && !isNonNegativeInteger(revokedAt)) {
+        errors.push(`"${path}.revokedAt" must be a non-negative integer`);
+    }
+    if (until !== undefined && !isNonNegativeInteger(until)) {
+        errors.push(`"${path}.until" must be a non-negative integer`);
+    }
+    for (const [field, names] of [
+        ["flags", flags],
+        ["features", features],
+    ] as const) {
+        if (
+            names !== undefined &&
+            (!Array.isArray(names) ||
+                names.length === 0 ||
+                names.some((name) => typeof name !== "string" || name === ""))
+        ) {
+            errors.push(
+                `"${path}.${field}" must be a non-empty array of non-empty strings`,
+            );
+        }
+    }
+    for (const field of Object.keys(entry)) {
+        if (!ENTRY_DETAIL_FIELDS.includes(field)) {
+            errors.push(`Unknown field "${path}.${field}"`);
+        }
+    }
+    return errors;
+}
+
+/**
+ * Check the shape of a list of revoked key entries
+ */
+function checkRevokedKeys(keys: unknown, path: string): string[] {
+    if (keys === undefined) {
+        return [];
+    }
+    if (!Array.isArray(keys)) {
+        return [`"${path}" must be an array of objects`];
+    }
+    return keys.flatMap((entry, index) =>
+        checkRevokedKey(entry, `${path}[${index}]`),
+    );
+}
+
+/**
+ * Check the shape of a revoked key entry
+ */
+function checkRevokedKey(entry: unknown, path: string): string[] {
+    if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+        return [`"${path}" must be an object`];
+    }
+
+    const errors: string[] = [];
+    const { kid, fingerprint, compromisedAt } = entry as Record<
+        string,
+        unknown
+    >;
+    if (kid === undefined && fingerprint === undefined) {
+        errors.push(`"${path}" must have a kid or a fingerprint`);
+    }
+    if (kid !== undefined && (typeof kid !== "string" || kid === "")) {
+        errors.push(`"${path}.kid" must be a non-empty string`);
+    }
+    if (fingerprint !== undefined) {
+        try {
+            normalizeKeyPin(fingerprint as string);
+        } catch {
+            errors.push(
+                `"${path}.fingerprint" must be a SHA-256 fingerprint in hex or base64url`,
+            );
+        }
+    }
+    if (
+        compromisedAt !== undefined &&
+        (typeof compromisedAt !== "number" || !Number.isFinite(compromisedAt))
+    ) {
+        errors.push(`"${path}.compromisedAt" must be a Unix timestamp`);
+    }
+    for (const field of Object.keys(entry)) {
+        if (!KEY_FIELDS.includes(field)) {
+            errors.push(`Unknown field "${path}.${field}"`);
+        }
+    }
+    return errors;
+}
+
+/**
+ * Check that a value is a non-negative integer
+ */
+function isNonNegativeInteger(value: unknown): boolean {
+    return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Get the token ID or subject of a jti or sub entry
+ */
+export function entryId(entry: string | RevocationEntry): string {
+    return typeof entry === "string" ? entry : entry.id;
+}
+
+/**
+ * Copy a revocation list and freeze the copy, so that lookups in it can
+ * be indexed. Providers keep lists they hold in this form.
+ */
+export function freezeRevocationList(list: RevocationList): RevocationList {
+    return deepFreeze(structuredClone(list));
+}
+
+/**
+ * Freeze a JSON value and everything it contains
+ */
+function deepFreeze<V>(value: V): V {
+    if (typeof value === "object" && value !== null) {
+        for (const child of Object.values(value)) {
+            deepFreeze(child);
+        }
+        Object.freeze(value);
+    }
+    return value;
+}
+
+/** Indexes built for the frozen entry arrays of revocation lists */
+const entryIndexes = new WeakMap<
+    readonly (string | RevocationEntry)[],
+    Map<string, RevocationEntry>
+>();
+
+/**
+ * Find the entry for a value in a list of revoked identifiers.
+ * Plain string entries are returned as entries without details. Frozen
+ * lists, such as those of freezeRevocationList, are looked up through an
+ * index built on first use; other lists may change and are searched.
+ */
+export function findEntry(
+    entries: readonly (string | RevocationEntry)[] | undefined,
+    value: string,
+): RevocationEntry | undefined {
+    if (!entries) {
+        return undefined;
+    }
+    if (!Object.isFrozen(entries)) {
+        const entry = entries.findLast((entry) => entryId(entry) === value);
+        return typeof entry === "string" ? { id: entry } : entry;
+    }
+    let index = entryIndexes.get(entries);
+    if (!index) {
+        index = new Map(
+            entries.map((entry) =>
+                typeof entry === "string"
+                    ? [entry, { id: entry }]
+                    : [entry.id, entry],
+            ),
+        );
+        entryIndexes.set(entries, index);
+    }
+    return index.get(value);
+}
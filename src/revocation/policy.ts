@@ -0,0 +1,205 @@
+/**
+ * Revocation failure policy - what to do when a list cannot be fetched
+ */
+
+import { createError } from "../errors.ts";
+import type {
+    RevocationFailurePolicy,
+    RevocationList,
+    ValidationError,
+    ValidationWarning,
+} from "../types/index.ts";
+import type { CachedResponse } from "../utils/http-cache.ts";
+import { now } from "../utils/time.ts";
+import { fetchRevocationList, type RevocationFetchOptions } from "./fetch.ts";
+import {
+    fetchStatusList,
+    type ReadonlyStatusList,
+    type StatusListFetchOptions,
+} from "./status-list.ts";
+
+/** Default policy: skip revocation with a warning when the list is unavailable */
+export const DEFAULT_REVOCATION_FAILURE_POLICY: RevocationFailurePolicy =
+    "fail-open";
+
+/** Revocation list or status list loaded under a failure policy */
+export interface RevocationListStatus<T = RevocationList> {
+    /** The list to check, or null when revocation is skipped or failed */
+    list: T | null;
+    /** Set when the policy requires validation to fail */
+    error?: ValidationError;
+    /** Set when an outdated list is used or revocation is skipped */
+    warning?: ValidationWarning;
+}
+
+/**
+ * Fetch a revocation list and apply the failure policy.
+ * - "fail-open": use the last fetched list, or skip revocation, with a warning
+ * - "fail-closed": fail when the current list cannot be fetched
+ * - { maxAge }: use the last fetched list with a warning while it is at
+ *   most maxAge seconds old, fail otherwise
+ * A list past its nextUpdate time at currentTime (default: now) is treated
+ * the same way, its age being counted from nextUpdate.
+ */
+export async function loadRevocationList(
+    url: string,
+    options: RevocationFetchOptions,
+    policy: RevocationFailurePolicy = DEFAULT_REVOCATION_FAILURE_POLICY,
+    currentTime?: number,
+): Promise<RevocationListStatus> {
+    const status = await loadWithPolicy(
+        url,
+        "revocation list",
+        () => fetchRevocationList(url, options),
+        policy,
+    );
+    if (!status.list || status.warning) {
+        return status;
+    }
+    return checkNextUpdate(url, status.list, policy, currentTime);
+}
+
+/**
+ * Fetch a status list and apply the failure policy
+ */
+export function loadStatusList(
+    url: string,
+    options: StatusListFetchOptions,
+    policy: RevocationFailurePolicy = DEFAULT_REVOCATION_FAILURE_POLICY,
+): Promise<RevocationListStatus<ReadonlyStatusList>> {
+    return loadWithPolicy(
+        url,
+        "status list",
+        () => fetchStatusList(url, options),
+        policy,
+    );
+}
+
+/**
+ * Fetch a list through its cache and apply the failure policy
+ */
+async function loadWithPolicy<T>(
+    url: string,
+    label: string,
+    fetchList: () => Promise<CachedResponse<T>>,
+    policy: RevocationFailurePolicy,
+): Promise<RevocationListStatus<T>> {
+    let cached: CachedResponse<T>;
+    try {
+        cached = await fetchList();
+    } catch (error) {
+        return {
+            list: null,
+            ...revocationUnavailable(label, (error as Error).message, policy, {
+                url,
+            }),
+        };
+    }
+
+    if (!cached.stale) {
+        return { list: cached.value };
+    }
+
+    const age = now() - cached.fetchedAt;
+    const details = {
+        url,
+        error: cached.error,
+        fetchedAt: cached.fetchedAt,
+        age,
+    };
+    if (
+        policy === "fail-open" ||
+        (typeof policy === "object" && age <= policy.maxAge)
+    ) {
+        return {
+            list: cached.value,
+            warning: {
+                code: "REVOCATION_UNAVAILABLE",
+                message: `Could not refresh ${label} (${cached.error}); using the list fetched ${age}s ago`,
+                details,
+            },
+        };
+    }
+    return {
+        list: null,
+        error: createError(
+            "REVOCATION_UNAVAILABLE",
+            `${capitalize(label)} is unavailable (${cached.error}) and the last fetched list is ${age}s old`,
+            details,
+        ),
+    };
+}
+
+/**
+ * Apply the failure policy when revocation could not be checked at all:
+ * warn under "fail-open", fail otherwise
+ */
+export function revocationUnavailable(
+    label: string,
+    reason: string,
+    policy: RevocationFailurePolicy = DEFAULT_REVOCATION_FAILURE_POLICY,
+    details: Record<string, unknown> = {},
+): { error?: ValidationError; warning?: ValidationWarning } {
+    if (policy === "fail-open") {
+        return {
+            warning: {
+                code: "REVOCATION_UNAVAILABLE",
+                message: `Revocation was not checked: ${reason}`,
+                details: { ...details, error: reason },
+            },
+        };
+    }
+    return {
+        error: createError(
+            "REVOCATION_UNAVAILABLE",
+            `${capitalize(label)} is unavailable: ${reason}`,
+            { ...details, error: reason },
+        ),
+    };
+}
+
+/**
+ * Capitalize the first letter of a label
+ */
+function capitalize(label: string): string {
+    return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+/**
+ * Apply the failure policy to a list whose nextUpdate time has passed
+ */
+function checkNextUpdate(
+    url: string,
+    list: RevocationList,
+    policy: RevocationFailurePolicy,
+    currentTime = now(),
+): RevocationListStatus {
+    const overdue =
+        list.nextUpdate !== undefined ? currentTime - list.nextUpdate : 0;
+    if (overdue <= 0) {
+        return { list };
+    }
+
+    const details = { url, nextUpdate: list.nextUpdate, overdue };
+    if (
+        policy === "fail-open" ||
+        (typeof policy === "object" && overdue <= policy.maxAge)
+    ) {
+        return {
+            list,
+            warning: {
+                code: "REVOCATION_LIST_OUTDATED",
+                message: `Revocation list should have been updated ${overdue}s ago`,
+                details,
+            },
+        };
+    }
+    return {
+        list: null,
+        error: createError(
+            "REVOCATION_LIST_OUTDATED",
+            `Revocation list is outdated: it should have been updated ${overdue}s ago`,
+            details,
+        ),
+    };
+}
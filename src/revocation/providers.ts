@@ -0,0 +1,562 @@
+/**
+ * Built-in revocation providers
+ */
+
+import { createError, invalidPayload } from "../errors.ts";
+import type {
+    LicensePayload,
+    RevocationCheckContext,
+    RevocationContext,
+    RevocationEntry,
+    RevocationFailurePolicy,
+    RevocationList,
+    RevocationProvider,
+    RevocationStateStore,
+    RevocationStatus,
+    RevocationUpdateListener,
+    StatusListReference,
+    ValidationError,
+    ValidationWarning,
+    WithdrawnEntitlements,
+} from "../types/index.ts";
+import { EventStream, type ServerSentEvent } from "../utils/event-stream.ts";
+import { now } from "../utils/time.ts";
+import {
+    applyRevocationListUpdate,
+    fetchRevocationList,
+    type RevocationFetchOptions,
+} from "./fetch.ts";
+import { findRevokedKey } from "./keys.ts";
+import { findEntry, freezeRevocationList } from "./list.ts";
+import { loadRevocationList, loadStatusList } from "./policy.ts";
+import { checkStatusClaim } from "./status-list.ts";
+import { isPartialEntry, mergeWithdrawals } from "./withdraw.ts";
+
+/**
+ * Revocation provider backed by a fixed revocation list.
+ * The provider keeps a frozen copy, so later changes to the list passed
+ * in do not apply.
+ */
+export class StaticRevocationProvider implements RevocationProvider {
+    public readonly list: RevocationList;
+
+    public constructor(list: RevocationList) {
+        this.list = freezeRevocationList(list);
+    }
+
+    public async isRevoked(
+        payload: LicensePayload,
+        context: RevocationCheckContext,
+    ): Promise<RevocationStatus> {
+        return listStatus(payload, context, this.list);
+    }
+}
+
+/** Options for a revocation provider backed by a revocation list URL */
+export interface UrlRevocationProviderOptions
+    extends Omit<RevocationFetchOptions, "force"> {
+    /** Behavior when the list cannot be fetched (default: "fail-open") */
+    failurePolicy?: RevocationFailurePolicy;
+    /**
+     * Server-Sent Events stream of revocation list deltas, connected while
+     * there are subscribers. Event data is a delta in the format served at
+     * deltaUrl, and event IDs should be the seq after the delta. A "refresh"
+     * event refetches the full list.
+     */
+    eventsUrl?: string;
+    /**
+     * Milliseconds before reconnecting to eventsUrl, doubled after every
+     * failed attempt up to eventsMaxReconnectDelay (default: 1000)
+     */
+    eventsReconnectDelay?: number;
+    /** Upper bound of the reconnection delay in milliseconds (default: 30000) */
+    eventsMaxReconnectDelay?: number;
+}
+
+/**
+ * Revocation provider backed by a revocation list fetched from a URL,
+ * through the shared cache. Signed lists are verified with the validator's
+ * trusted keys unless keys are given.
+ */
+export class UrlRevocationProvider implements RevocationProvider {
+    public readonly url: string;
+    private readonly fetchOptions: Omit<RevocationFetchOptions, "force">;
+    private readonly failurePolicy?: RevocationFailurePolicy;
+    private readonly eventsUrl?: string;
+    private readonly reconnectDelay?: number;
+    private readonly maxReconnectDelay?: number;
+    private readonly listeners = new Set<RevocationUpdateListener>();
+    private stream?: EventStream;
+
+    public constructor(
+        url: string,
+        options: UrlRevocationProviderOptions = {},
+    ) {
+        const {
+            failurePolicy,
+            eventsUrl,
+            eventsReconnectDelay,
+            eventsMaxReconnectDelay,
+            ...fetchOptions
+        } = options;
+        this.url = url;
+        this.fetchOptions = fetchOptions;
+        this.failurePolicy = failurePolicy;
+        this.eventsUrl = eventsUrl;
+        this.reconnectDelay = eventsReconnectDelay;
+        this.maxReconnectDelay = eventsMaxReconnectDelay;
+    }
+
+    public async isRevoked(
+        payload: LicensePayload,
+        context: RevocationCheckContext,
+    ): Promise<RevocationStatus> {
+        const status = await loadRevocationList(
+            this.url,
+            this.options(context),
+            this.failurePolicy,
+            context.currentTime,
+        );
+        if (!status.list) {
+            return toStatus(status.error, status.warning);
+        }
+        return listStatus(payload, context, status.list, status.warning);
+    }
+
+    public async refresh(context: RevocationContext): Promise<boolean> {
+        try {
+            const cached = await fetchRevocationList(this.url, {
+                ...this.options(context),
+                force: true,
+            });
+            return !cached.stale;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Apply deltas pushed over eventsUrl to the cached list, and call the
+     * listener after each one. The stream is opened for the first
+     * subscriber and closed when the last one stops listening.
+     * Throws if no eventsUrl is configured.
+     */
+    public subscribe(
+        context: RevocationContext,
+        listener: RevocationUpdateListener,
+    ): () => Promise<void> {
+        if (!this.eventsUrl) {
+            throw new Error(
+                `No events URL configured for the revocation list at ${this.url}`,
+            );
+        }
+        this.listeners.add(listener);
+        if (!this.stream) {
+            const options = this.options(context);
+            this.stream = new EventStream(this.eventsUrl, {
+                reconnectDelay: this.reconnectDelay,
+                maxReconnectDelay: this.maxReconnectDelay,
+                onEvent: (event) => this.applyEvent(event, options),
+            });
+            this.stream.start();
+        }
+
+        return async () => {
+            this.listeners.delete(listener);
+            const stream = this.stream;
+            if (this.listeners.size === 0 && stream) {
+                this.stream = undefined;
+                await stream.close();
+            }
+        };
+    }
+
+    /**
+     * Apply an event from eventsUrl and notify the subscribers.
+     * Events that cannot be applied are dropped; the list is then brought
+     * up to date by the next fetch.
+     */
+    private async applyEvent(
+        event: ServerSentEvent,
+        options: RevocationFetchOptions,
+    ): Promise<void> {
+        let list: RevocationList | null;
+        try {
+            if (event.event === "refresh") {
+                const cached = await fetchRevocationList(this.url, {
+                    ...options,
+                    force: true,
+                });
+                list = cached.stale ? null : cached.value;
+            } else if (event.event === "message" || event.event === "delta") {
+                list = await applyRevocationListUpdate(
+                    this.url,
+                    event.data,
+                    options,
+                );
+            } else {
+                return;
+            }
+        } catch {
+            return;
+        }
+        if (!list) {
+            return;
+        }
+
+        for (const listener of [...this.listeners]) {
+            try {
+                await listener({ source: this.url, seq: list.seq });
+            } catch {
+                // A failing listener must not stop the others
+            }
+        }
+    }
+
+    /**
+     * Fetch options, defaulting to the validator's keys and realm
+     */
+    private options(context: RevocationContext): RevocationFetchOptions {
+        return {
+            ...this.fetchOptions,
+            keys: this.fetchOptions.keys ?? context.keys,
+            realm: this.fetchOptions.realm ?? context.realm,
+        };
+    }
+}
+
+/** Options for the status list revocation provider */
+export interface StatusListRevocationProviderOptions {
+    /** Seconds a fetched status list is reused (default: 300) */
+    ttl?: number;
+    /** Behavior when a status list cannot be fetched (default: "fail-open") */
+    failurePolicy?: RevocationFailurePolicy;
+    /** Refuse status lists that are not signed by a trusted key */
+    requireSignature?: boolean;
+    /** Where the newest sequence number seen per URL is kept (default: in memory) */
+    stateStore?: RevocationStateStore;
+}
+
+/**
+ * Revocation provider checking the status list entry named by a token's
+ * status claim. Tokens without a status claim are not revoked. Signed
+ * status lists are verified with the validator's keys and realm.
+ */
+export class StatusListRevocationProvider implements RevocationProvider {
+    private readonly options: StatusListRevocationProviderOptions;
+
+    public constructor(options: StatusListRevocationProviderOptions = {}) {
+        this.options = options;
+    }
+
+    public async isRevoked(
+        payload: LicensePayload,
+        context: RevocationCheckContext,
+    ): Promise<RevocationStatus> {
+        if (payload.status === undefined) {
+            return { revoked: false };
+        }
+        const invalidClaim = checkStatusClaim(payload.status);
+        if (invalidClaim) {
+            return toStatus(invalidPayload(invalidClaim));
+        }
+        const { url, index } = payload.status as StatusListReference;
+
+        const status = await loadStatusList(
+            url,
+            {
+                ttl: this.options.ttl,
+                keys: context.keys,
+                realm: context.realm,
+                requireSignature: this.options.requireSignature,
+                stateStore: this.options.stateStore,
+            },
+            this.options.failurePolicy,
+        );
+        if (!status.list) {
+            return toStatus(status.error, status.warning);
+        }
+        if (index >= status.list.size) {
+            return toStatus(
+                invalidPayload(
+                    `status.index ${index} is outside the status list (size ${status.list.size})`,
+                ),
+            );
+        }
+        if (status.list.isRevoked(index)) {
+            return toStatus({
+                code: "TOKEN_REVOKED",
+                message: `Token has been revoked (status list index ${index})`,
+                details: { statusList: url, index, reason: "status_revoked" },
+            });
+        }
+        return toStatus(null, status.warning);
+    }
+}
+
+/**
+ * Revocation provider combining several providers.
+ * Providers are checked in order until one rejects the token; warnings
+ * and withdrawals from every provider checked are kept.
+ */
+export class CompositeRevocationProvider implements RevocationProvider {
+    public readonly providers: readonly RevocationProvider[];
+
+    public constructor(providers: readonly RevocationProvider[]) {
+        this.providers = providers;
+    }
+
+    public async isRevoked(
+        payload: LicensePayload,
+        context: RevocationCheckContext,
+    ): Promise<RevocationStatus> {
+        const warnings: ValidationWarning[] = [];
+        const withdrawals: (WithdrawnEntitlements | undefined)[] = [];
+        for (const provider of this.providers) {
+            const status = await provider.isRevoked(payload, context);
+            warnings.push(...(status.warnings ?? []));
+            withdrawals.push(status.withdrawn);
+            if (status.revoked) {
+                return {
+                    revoked: true,
+                    error:
+                        status.error ??
+                        createError("TOKEN_REVOKED", "Token has been revoked"),
+                    warnings,
+                };
+            }
+        }
+        const result: RevocationStatus = { revoked: false };
+        if (warnings.length > 0) {
+            result.warnings = warnings;
+        }
+        const withdrawn = mergeWithdrawals(withdrawals);
+        if (withdrawn) {
+            result.withdrawn = withdrawn;
+        }
+        return result;
+    }
+
+    /**
+     * Refresh every provider that can be refreshed.
+     * Returns false if none can be, or any refresh failed.
+     */
+    public async refresh(context: RevocationContext): Promise<boolean> {
+        const results = await Promise.all(
+            this.providers.flatMap((provider) =>
+                provider.refresh ? [provider.refresh(context)] : [],
+            ),
+        );
+        return results.length > 0 && results.every(Boolean);
+    }
+
+    /**
+     * Listen for updates pushed to every provider that supports them.
+     * Throws if none does.
+     */
+    public subscribe(
+        context: RevocationContext,
+        listener: RevocationUpdateListener,
+    ): () => Promise<void> {
+        if (!this.providers.some((provider) => provider.subscribe)) {
+            throw new Error("No revocation provider supports subscriptions");
+        }
+
+        const unsubscribers: (() => Promise<void>)[] = [];
+        try {
+            for (const provider of this.providers) {
+                if (provider.subscribe) {
+                    unsubscribers.push(provider.subscribe(context, listener));
+                }
+            }
+        } catch (error) {
+            for (const unsubscribe of unsubscribers) {
+                void unsubscribe();
+            }
+            throw error;
+        }
+        return async () => {
+            await Promise.all(
+                unsubscribers.map((unsubscribe) => unsubscribe()),
+            );
+        };
+    }
+}
+
+/**
+ * Build a provider status from a revocation error and warning
+ */
+function toStatus(
+    error: ValidationError | null | undefined,
+    warning?: ValidationWarning,
+): RevocationStatus {
+    const status: RevocationStatus = error
+        ? { revoked: true, error }
+        : { revoked: false };
+    if (warning) {
+        status.warnings = [warning];
+    }
+    return status;
+}
+
+/**
+ * Check a token against a revocation list, including the flags and
+ * features its entries withdraw
+ */
+async function listStatus(
+    payload: LicensePayload,
+    context: RevocationCheckContext,
+    revocationList: RevocationList,
+    warning?: ValidationWarning,
+): Promise<RevocationStatus> {
+    const status = toStatus(
+        await findRevocation(payload, context, revocationList),
+        warning,
+    );
+    if (status.revoked) {
+        return status;
+    }
+
+    const currentTime = context.currentTime ?? now();
+    const entries = [
+        payload.jti ? findEntry(revocationList.jti, payload.jti) : undefined,
+        payload.sub ? findEntry(revocationList.sub, payload.sub) : undefined,
+    ];
+    const withdrawn = mergeWithdrawals(
+        entries.map((entry) =>
+            entry &&
+            isPartialEntry(entry) &&
+            (entry.until === undefined || currentTime < entry.until)
+                ? { flags: entry.flags, features: entry.features }
+                : undefined,
+        ),
+    );
+    if (withdrawn) {
+        status.withdrawn = withdrawn;
+    }
+    return status;
+}
+
+/**
+ * Find the revocation list entry matching a token or its signing key
+ */
+async function findRevocation(
+    payload: LicensePayload,
+    context: RevocationCheckContext,
+    revocationList: RevocationList,
+): Promise<ValidationError | null> {
+    const { key } = context;
+
+    // Check if the signing key is revoked
+    const revokedKey = revocationList.keys
+        ? await findRevokedKey(revocationList.keys, key, payload.iat)
+        : undefined;
+    if (revokedKey) {
+        return {
+            code: "SIGNING_KEY_REVOKED",
+            message: `Signing key has been revoked${key.kid !== undefined ? ` (kid: ${key.kid})` : ""}`,
+            details: { ...revokedKey, reason: "key_revoked" },
+        };
+    }
+
+    // Check if jti or sub is revoked or suspended
+    const currentTime = context.currentTime ?? now();
+    const jtiEntry = payload.jti
+        ? findEntry(revocationList.jti, payload.jti)
+        : undefined;
+    const jtiError = jtiEntry && entryError("jti", jtiEntry, currentTime);
+    if (jtiError) {
+        return jtiError;
+    }
+    const subEntry = payload.sub
+        ? findEntry(revocationList.sub, payload.sub)
+        : undefined;
+    const subError = subEntry && entryError("sub", subEntry, currentTime);
+    if (subError) {
+        return subError;
+    }
+
+    // Check if the token was issued before a cutoff; tokens without
+    // iat cannot prove they were issued after it
+    const subCutoffs = revocationList.subIssuedBefore;
+    const subCutoff =
+        payload.sub && subCutoffs && Object.hasOwn(subCutoffs, payload.sub)
+            ? subCutoffs[payload.sub]
+            : undefined;
+    if (
+        subCutoff !== undefined &&
+        (payload.iat === undefined || payload.iat < subCutoff)
+    ) {
+        return {
+            code: "TOKEN_REVOKED",
+            message: `Tokens for subject ${payload.sub} issued before ${subCutoff} have been revoked`,
+            details: {
+                sub: payload.sub,
+                issuedBefore: subCutoff,
+                iat: payload.iat,
+                reason: "sub_issued_before",
+            },
+        };
+    }
+    const cutoff = revocationList.issuedBefore;
+    if (
+        cutoff !== undefined &&
+        (payload.iat === undefined || payload.iat < cutoff)
+    ) {
+        return {
+            code: "TOKEN_REVOKED",
+            message: `Tokens issued before ${cutoff} have been revoked`,
+            details: {
+                issuedBefore: cutoff,
+                iat: payload.iat,
+                reason: "issued_before",
+            },
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Build the error for a matching jti or sub entry.
+ * Returns null once a suspension has ended, and for entries that only
+ * withdraw flags or features.
+ */
+function entryError(
+    field: "jti" | "sub",
+    entry: RevocationEntry,
+    currentTime: number,
+): ValidationError | null {
+    if (
+        isPartialEntry(entry) ||
+        (entry.until !== undefined && currentTime >= entry.until)
+    ) {
+        return null;
+    }
+    const suspended = entry.until !== undefined;
+
+    const subject = field === "jti" ? "Token" : "Subject";
+    const details: Record<string, unknown> = {
+        [field]: entry.id,
+        reason: `${field}_${suspended ? "suspended" : "revoked"}`,
+    };
+    if (entry.reason !== undefined) {
+        details.revocationReason = entry.reason;
+    }
+    if (entry.revokedAt !== undefined) {
+        details.revokedAt = entry.revokedAt;
+    }
+    if (suspended) {
+        details.until = entry.until;
+        return {
+            code: "TOKEN_SUSPENDED",
+            message: `${subject} is suspended until ${entry.until} (${field}: ${entry.id})`,
+            details,
+        };
+    }
+    return {
+        code: "TOKEN_REVOKED",
+        message: `${subject} has been revoked (${field}: ${entry.id})`,
+        details,
+    };
+}
@@ -0,0 +1,37 @@
+/**
+ * Revocation provider resolution from validator configuration
+ */
+
+import type { RevocationProvider, ValidatorConfig } from "../types/index.ts";
+import {
+    StaticRevocationProvider,
+    UrlRevocationProvider,
+} from "./providers.ts";
+
+/**
+ * Create the revocation provider for a validator configuration: the
+ * configured provider, or a built-in one for revocationUrl or revocation.
+ * Returns undefined when no revocation source is configured.
+ */
+export function resolveRevocationProvider<T>(
+    config: ValidatorConfig<T>,
+): RevocationProvider | undefined {
+    if (config.revocationProvider) {
+        return config.revocationProvider;
+    }
+    if (config.revocationUrl) {
+        return new UrlRevocationProvider(config.revocationUrl, {
+            ttl: config.revocationCacheTtl,
+            staleWhileRevalidate: config.revocationStaleWhileRevalidate,
+            requireSignature: config.revocationRequireSignature,
+            stateStore: config.revocationStateStore,
+            deltaUrl: config.revocationDeltaUrl,
+            eventsUrl: config.revocationEventsUrl,
+            failurePolicy: config.revocationFailurePolicy,
+        });
+    }
+    if (config.revocation) {
+        return new StaticRevocationProvider(config.revocation);
+    }
+    return undefined;
+}
@@ -0,0 +1,168 @@
+/**
+ * Signed revocation and status lists - lists signed by one of the
+ * validator's trusted keys
+ */
+
+import { KEYWRIT_ISSUER, KEYWRIT_REVOCATION_TYPE } from "../constants.ts";
+import { decodeJWT } from "../jwt/decode.ts";
+import { verifyWithKeys } from "../jwt/verify.ts";
+import type {
+    RevocationList,
+    RevocationListDelta,
+    RevocationListDeltaPayload,
+    RevocationListPayload,
+    StatusListDocument,
+    StatusListPayload,
+    TrustedKey,
+} from "../types/index.ts";
+import { isPast } from "../utils/time.ts";
+import { parseRevocationList, parseRevocationListDelta } from "./list.ts";
+
+/** A verified signed revocation list */
+export interface VerifiedRevocationList {
+    /** The revoked entries */
+    list: RevocationList;
+    /** The trusted key that signed the list */
+    key: TrustedKey;
+}
+
+/** A verified signed revocation list delta */
+export interface VerifiedRevocationListDelta {
+    /** The changes */
+    delta: RevocationListDelta;
+    /** The trusted key that signed the delta */
+    key: TrustedKey;
+}
+
+/** A verified signed status list */
+export interface VerifiedStatusList {
+    /** The status list document */
+    document: StatusListDocument;
+    /** The trusted key that signed the list */
+    key: TrustedKey;
+}
+
+/** Fields shared by signed revocation lists, deltas and status lists */
+type SignedRevocationPayload = Omit<RevocationListPayload, "revocation">;
+
+/**
+ * Verify a signed revocation list with the trusted keys and return it.
+ * Throws if the list is malformed, not signed by a trusted key, issued
+ * for another realm, or expired. Unknown top-level fields of the list
+ * are dropped.
+ */
+export async function verifyRevocationList(
+    document: string,
+    keys: readonly TrustedKey[],
+    realm: string,
+    currentTime?: number,
+): Promise<VerifiedRevocationList> {
+    const { payload, key } = await verifySignedDocument<RevocationListPayload>(
+        "revocation list",
+        document,
+        keys,
+        realm,
+        currentTime,
+    );
+    const parsed = parseRevocationList(payload.revocation, {
+        ignoreUnknownFields: true,
+    });
+    if (!parsed.success) {
+        throw new Error(
+            `Invalid signed revocation list: ${parsed.errors.join("; ")}`,
+        );
+    }
+    return { list: parsed.data, key };
+}
+
+/**
+ * Verify a signed revocation list delta with the trusted keys and return it.
+ * Throws under the same conditions as verifyRevocationList.
+ */
+export async function verifyRevocationListDelta(
+    document: string,
+    keys: readonly TrustedKey[],
+    realm: string,
+    currentTime?: number,
+): Promise<VerifiedRevocationListDelta> {
+    const { payload, key } =
+        await verifySignedDocument<RevocationListDeltaPayload>(
+            "revocation list delta",
+            document,
+            keys,
+            realm,
+            currentTime,
+        );
+    const parsed = parseRevocationListDelta(payload.delta);
+    if (!parsed.success) {
+        throw new Error(
+            `Invalid signed revocation list delta: ${parsed.errors.join("; ")}`,
+        );
+    }
+    return { delta: parsed.data, key };
+}
+
+/**
+ * Verify a signed status list with the trusted keys and return its
+ * document. Throws under the same conditions as verifyRevocationList;
+ * the bitstring itself is checked when the document is decompressed.
+ */
+export async function verifyStatusList(
+    document: string,
+    keys: readonly TrustedKey[],
+    realm: string,
+    currentTime?: number,
+): Promise<VerifiedStatusList> {
+    const { payload, key } = await verifySignedDocument<StatusListPayload>(
+        "status list",
+        document,
+        keys,
+        realm,
+        currentTime,
+    );
+    if (typeof payload.statusList !== "object" || payload.statusList === null) {
+        throw new Error(
+            "Invalid signed status list: statusList must be an object",
+        );
+    }
+    return { document: payload.statusList, key };
+}
+
+/**
+ * Verify the signature, issuer, realm and expiry of a signed document
+ */
+async function verifySignedDocument<T extends SignedRevocationPayload>(
+    label: string,
+    document: string,
+    keys: readonly TrustedKey[],
+    realm: string,
+    currentTime: number | undefined,
+): Promise<{ payload: T; key: TrustedKey }> {
+    const decoded = decodeJWT<T>(document.trim(), KEYWRIT_REVOCATION_TYPE);
+    if (!decoded.success) {
+        throw new Error(`Invalid signed ${label}: ${decoded.error}`);
+    }
+
+    const verifyResult = await verifyWithKeys(decoded.data, keys);
+    if (!verifyResult.success) {
+        throw new Error(
+            `Invalid signed ${label}: ${verifyResult.error.message}`,
+        );
+    }
+
+    const payload = decoded.data.payload;
+    if (payload.iss !== KEYWRIT_ISSUER) {
+        throw new Error(
+            `Invalid signed ${label}: expected issuer ${KEYWRIT_ISSUER}, got ${payload.iss}`,
+        );
+    }
+    if (payload.aud !== realm) {
+        throw new Error(
+            `Invalid signed ${label}: issued for realm ${payload.aud}, expected ${realm}`,
+        );
+    }
+    if (payload.exp !== undefined && isPast(payload.exp, currentTime)) {
+        throw new Error(`Signed ${label} expired at ${payload.exp}`);
+    }
+    return { payload, key: verifyResult.key };
+}
@@ -0,0 +1,57 @@
+/**
+ * Revocation list rollback protection
+ */
+
+import type { RevocationList, RevocationStateStore } from "../types/index.ts";
+
+/**
+ * Revocation state kept in memory for the lifetime of the process
+ */
+export class MemoryRevocationStateStore implements RevocationStateStore {
+    private readonly sequences = new Map<string, number>();
+
+    public getSequence(url: string): number | undefined {
+        return this.sequences.get(url);
+    }
+
+    public setSequence(url: string, seq: number): void {
+        this.sequences.set(url, seq);
+    }
+
+    /**
+     * Forget the sequence number of a URL, or of every URL
+     */
+    public clear(url?: string): void {
+        if (url === undefined) {
+            this.sequences.clear();
+        } else {
+            this.sequences.delete(url);
+        }
+    }
+}
+
+/** State store used by validators that do not configure one */
+export const defaultRevocationStateStore: MemoryRevocationStateStore =
+    new MemoryRevocationStateStore();
+
+/**
+ * Refuse a revocation or status list older than the newest one seen for
+ * the URL, and remember its sequence number otherwise. Once a list with a
+ * sequence number was seen, lists without one are refused as well.
+ */
+export async function checkSequence(
+    url: string,
+    list: Pick<RevocationList, "seq">,
+    store: RevocationStateStore,
+    label = "Revocation list",
+): Promise<void> {
+    const newest = await store.getSequence(url);
+    if (newest !== undefined && (list.seq === undefined || list.seq < newest)) {
+        throw new Error(
+            `${label} was rolled back: sequence ${list.seq ?? "(none)"} is older than ${newest}`,
+        );
+    }
+    if (list.seq !== undefined && list.seq !== newest) {
+        await store.setSequence(url, list.seq);
+    }
+}
@@ -0,0 +1,354 @@
+/**
+ * Bitstring status lists - one revocation bit per token, gzip-compressed
+ */
+
+import type {
+    RevocationStateStore,
+    StatusListDocument,
+    StatusListReference,
+    TrustedKey,
+} from "../types/index.ts";
+import {
+    decode as base64urlDecode,
+    encode as base64urlEncode,
+} from "../utils/base64url.ts";
+import { type CachedResponse, HttpCache } from "../utils/http-cache.ts";
+import { bytesToHex } from "../utils/keys.ts";
+import { verifyStatusList } from "./signed.ts";
+import { checkSequence, defaultRevocationStateStore } from "./state.ts";
+
+/**
+ * Default number of entries in a new status list. 131072 bits (16 KiB) is
+ * large enough that a list does not reveal which tokens exist.
+ */
+export const DEFAULT_STATUS_LIST_SIZE = 131072;
+
+/** Default time in seconds a fetched status list is reused */
+export const DEFAULT_STATUS_LIST_CACHE_TTL = 300;
+
+/** Largest accepted decompressed status list (bytes) */
+const MAX_STATUS_LIST_BYTES = 16 * 1024 * 1024;
+
+/**
+ * Status list holding one bit per token index; a set bit marks the token
+ * as revoked. Bits are numbered from the most significant bit of the
+ * first byte, as in the W3C Bitstring Status List.
+ */
+export class StatusList {
+    private readonly bits: Uint8Array;
+    /** Sequence number, written to the document when set */
+    public seq?: number;
+
+    private constructor(bits: Uint8Array, seq?: number) {
+        this.bits = bits;
+        this.seq = seq;
+    }
+
+    /**
+     * Number of token indexes in the list
+     */
+    public get size(): number {
+        return this.bits.length * 8;
+    }
+
+    /**
+     * Whether the token at the index is revoked
+     */
+    public isRevoked(index: number): boolean {
+        this.checkIndex(index);
+        return ((this.bits[index >> 3]! >> (7 - (index & 7))) & 1) === 1;
+    }
+
+    /**
+     * Revoke the token at the index, or restore it when `revoked` is false
+     */
+    public setRevoked(index: number, revoked = true): void {
+        this.checkIndex(index);
+        const mask = 1 << (7 - (index & 7));
+        this.bits[index >> 3] = revoked
+            ? this.bits[index >> 3]! | mask
+            : this.bits[index >> 3]! & ~mask;
+    }
+
+    /**
+     * Compress the list into a document for serving at the status list URL
+     */
+    public async toDocument(): Promise<StatusListDocument> {
+        const compressed = await readStream(
+            new Blob([this.bits])
+                .stream()
+                .pipeThrough(new CompressionStream("gzip")),
+        );
+        const document: StatusListDocument = {
+            encodedList: base64urlEncode(compressed),
+        };
+        if (this.seq !== undefined) {
+            document.seq = this.seq;
+        }
+        return document;
+    }
+
+    /**
+     * Throw if the index is outside the list
+     */
+    private checkIndex(index: number): void {
+        if (!Number.isInteger(index) || index < 0 || index >= this.size) {
+            throw new Error(
+                `Status list index ${index} is out of range (size ${this.size})`,
+            );
+        }
+    }
+
+    /**
+     * Create an empty status list.
+     * The size is rounded up to a whole number of bytes.
+     */
+    public static create(size: number = DEFAULT_STATUS_LIST_SIZE): StatusList {
+        if (!Number.isInteger(size) || size <= 0) {
+            throw new Error(
+                `Invalid status list size: expected a positive integer, got ${size}`,
+            );
+        }
+        return new StatusList(new Uint8Array(Math.ceil(size / 8)));
+    }
+
+    /**
+     * Decompress a status list document
+     */
+    public static async fromDocument(
+        document: StatusListDocument,
+    ): Promise<StatusList> {
+        if (
+            typeof document !== "object" ||
+            document === null ||
+            typeof document.encodedList !== "string"
+        ) {
+            throw new Error(
+                'Invalid status list: expected an object with an "encodedList" string',
+            );
+        }
+        if (
+            document.seq !== undefined &&
+            (!Number.isInteger(document.seq) || document.seq < 0)
+        ) {
+            throw new Error(
+                "Invalid status list: seq must be a non-negative integer",
+            );
+        }
+
+        let compressed: Uint8Array;
+        try {
+            compressed = base64urlDecode(document.encodedList);
+        } catch {
+            throw new Error(
+                "Invalid status list: encodedList is not base64url",
+            );
+        }
+
+        let bits: Uint8Array;
+        try {
+            bits = await readStream(
+                new Blob([new Uint8Array(compressed)])
+                    .stream()
+                    .pipeThrough(new DecompressionStream("gzip")),
+            );
+        } catch (error) {
+            throw new Error(`Invalid status list: ${(error as Error).message}`);
+        }
+        if (bits.length === 0) {
+            throw new Error("Invalid status list: the list is empty");
+        }
+        return new StatusList(bits, document.seq);
+    }
+}
+
+/** Read-only view of a fetched status list, which validators share */
+export interface ReadonlyStatusList {
+    /** Sequence number of the list, if any */
+    readonly seq?: number;
+    /** Number of token indexes in the list */
+    readonly size: number;
+    /** Whether the token at the index is revoked */
+    isRevoked(index: number): boolean;
+}
+
+/** A fetched status list, and the key and realm it was signed with, if any */
+interface FetchedStatusList {
+    list: ReadonlyStatusList;
+    /** Hex-encoded public key that signed the list */
+    signedBy?: string;
+    /** Realm the signed list was issued for */
+    realm?: string;
+}
+
+/** Status lists fetched from token status URLs, shared by all validators */
+const statusListCache = new HttpCache<FetchedStatusList>();
+
+/** Options for fetching a status list */
+export interface StatusListFetchOptions {
+    /** Seconds a fetched list is reused (default: 300) */
+    ttl?: number;
+    /** Refetch even if the cached list is fresh */
+    force?: boolean;
+    /** Keys that may sign the list; signed lists are refused without them */
+    keys?: readonly TrustedKey[];
+    /** Realm a signed list must be issued for */
+    realm?: string;
+    /** Refuse lists that are not signed by one of the keys */
+    requireSignature?: boolean;
+    /** Where the newest sequence number seen is kept (default: in memory) */
+    stateStore?: RevocationStateStore;
+}
+
+/**
+ * Fetch a status list through the cache.
+ * Signed lists are verified with the given keys, and lists older than the
+ * newest one seen are refused, before they are cached.
+ * Throws if the list cannot be fetched or is invalid and nothing is cached,
+ * or if the cached list is not signed as required or was rolled back.
+ */
+export async function fetchStatusList(
+    url: string,
+    options: StatusListFetchOptions = {},
+): Promise<CachedResponse<ReadonlyStatusList>> {
+    const stateStore = options.stateStore ?? defaultRevocationStateStore;
+    const cached = await statusListCache.fetch(url, {
+        ttl: options.ttl ?? DEFAULT_STATUS_LIST_CACHE_TTL,
+        force: options.force,
+        label: "status list",
+        parse: async (body) => {
+            const fetched = await parseStatusListBody(body, options);
+            await checkSequence(url, fetched.list, stateStore, "Status list");
+            return fetched;
+        },
+    });
+
+    // The cache is shared, so the list may have been verified for another validator
+    const { signedBy, realm } = cached.value;
+    if (options.requireSignature && !signedBy) {
+        throw new Error(`Status list from ${url} is not signed`);
+    }
+    if (
+        signedBy &&
+        options.keys &&
+        !options.keys.some((key) => bytesToHex(key.publicKey) === signedBy)
+    ) {
+        throw new Error(
+            `Status list from ${url} is not signed by a trusted key`,
+        );
+    }
+    if (signedBy && options.realm !== undefined && realm !== options.realm) {
+        throw new Error(
+            `Status list from ${url} was issued for realm ${realm}, expected ${options.realm}`,
+        );
+    }
+    await checkSequence(url, cached.value.list, stateStore, "Status list");
+    return { ...cached, value: cached.value.list };
+}
+
+/**
+ * Drop cached status lists.
+ * Clears a single URL when given, otherwise the whole cache.
+ */
+export function clearStatusListCache(url?: string): void {
+    statusListCache.clear(url);
+}
+
+/**
+ * Check the shape of a token's status claim.
+ * Returns an error message, or null if the claim is valid.
+ */
+export function checkStatusClaim(status: unknown): string | null {
+    if (typeof status !== "object" || status === null) {
+        return "status must be an object";
+    }
+    const { url, index } = status as Partial<StatusListReference>;
+    if (typeof url !== "string" || !/^https?:\/\//.test(url)) {
+        return "status.url must be an http(s) URL";
+    }
+    if (typeof index !== "number" || !Number.isInteger(index) || index < 0) {
+        return "status.index must be a non-negative integer";
+    }
+    return null;
+}
+
+/**
+ * Parse a fetched status list, verifying it if it is signed
+ */
+async function parseStatusListBody(
+    body: string,
+    options: StatusListFetchOptions,
+): Promise<FetchedStatusList> {
+    if (!body.trimStart().startsWith("{")) {
+        if (!options.keys || options.realm === undefined) {
+            throw new Error(
+                "Signed status list cannot be verified without trusted keys",
+            );
+        }
+        const verified = await verifyStatusList(
+            body,
+            options.keys,
+            options.realm,
+        );
+        return {
+            list: readonlyView(
+                await StatusList.fromDocument(verified.document),
+            ),
+            signedBy: bytesToHex(verified.key.publicKey),
+            realm: options.realm,
+        };
+    }
+    if (options.requireSignature) {
+        throw new Error("Status list is not signed");
+    }
+
+    let document: StatusListDocument;
+    try {
+        document = JSON.parse(body) as StatusListDocument;
+    } catch {
+        throw new Error("Status list is not valid JSON");
+    }
+    return { list: readonlyView(await StatusList.fromDocument(document)) };
+}
+
+/**
+ * Wrap a status list so that the cached copy cannot be changed
+ */
+function readonlyView(list: StatusList): ReadonlyStatusList {
+    return Object.freeze({
+        seq: list.seq,
+        size: list.size,
+        isRevoked: (index: number) => list.isRevoked(index),
+    });
+}
+
+/**
+ * Read a byte stream to the end, refusing oversized output
+ */
+async function readStream(
+    stream: ReadableStream<Uint8Array>,
+): Promise<Uint8Array> {
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    const reader = stream.getReader();
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+            break;
+        }
+        length += value.length;
+        if (length > MAX_STATUS_LIST_BYTES) {
+            await reader.cancel();
+            throw new Error("the list is too large");
+        }
+        chunks.push(value);
+    }
+
+    const bytes = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return bytes;
+}
@@ -0,0 +1,95 @@
+/**
+ * Partial revocation - flags and features withdrawn from accepted tokens
+ */
+
+import type {
+    LicensePayload,
+    RevocationEntry,
+    ValidationWarning,
+    WithdrawnEntitlements,
+} from "../types/index.ts";
+
+/**
+ * Check whether a jti or sub entry withdraws flags or features instead of
+ * revoking the token
+ */
+export function isPartialEntry(entry: RevocationEntry): boolean {
+    return entry.flags !== undefined || entry.features !== undefined;
+}
+
+/**
+ * Combine withdrawals from several entries or providers.
+ * Returns undefined when nothing is withdrawn.
+ */
+export function mergeWithdrawals(
+    withdrawals: readonly (WithdrawnEntitlements | undefined)[],
+): WithdrawnEntitlements | undefined {
+    const flags = new Set<string>();
+    const features = new Set<string>();
+    for (const withdrawn of withdrawals) {
+        for (const flag of withdrawn?.flags ?? []) {
+            flags.add(flag);
+        }
+        for (const feature of withdrawn?.features ?? []) {
+            features.add(feature);
+        }
+    }
+
+    const merged: WithdrawnEntitlements = {};
+    if (flags.size > 0) {
+        merged.flags = [...flags];
+    }
+    if (features.size > 0) {
+        merged.features = [...features];
+    }
+    return Object.keys(merged).length > 0 ? merged : undefined;
+}
+
+/**
+ * Remove withdrawn flags and features from a license payload.
+ * Returns a copy of the payload, and a warning listing the flags and
+ * features the token actually had, if any.
+ */
+export function withdrawEntitlements<T>(
+    payload: LicensePayload<T>,
+    withdrawn: WithdrawnEntitlements | undefined,
+): { license: LicensePayload<T>; warning?: ValidationWarning } {
+    const withdrawnFlags = new Set(withdrawn?.flags);
+    const withdrawnFeatures = new Set(withdrawn?.features);
+    const flags = (payload.flags ?? []).filter((flag) =>
+        withdrawnFlags.has(flag),
+    );
+    const features = Object.keys(payload.features ?? {}).filter((feature) =>
+        withdrawnFeatures.has(feature),
+    );
+    if (flags.length === 0 && features.length === 0) {
+        return { license: payload };
+    }
+
+    const license = { ...payload };
+    if (flags.length > 0) {
+        license.flags = payload.flags?.filter(
+            (flag) => !withdrawnFlags.has(flag),
+        );
+    }
+    if (features.length > 0) {
+        license.features = Object.fromEntries(
+            Object.entries(payload.features ?? {}).filter(
+                ([feature]) => !withdrawnFeatures.has(feature),
+            ),
+        );
+    }
+
+    const withdrawnItems = [
+        ...(flags.length > 0 ? [`flags ${flags.join(", ")}`] : []),
+        ...(features.length > 0 ? [`features ${features.join(", ")}`] : []),
+    ];
+    return {
+        license,
+        warning: {
+            code: "ENTITLEMENTS_WITHDRAWN",
+            message: `Withdrawn by revocation: ${withdrawnItems.join("; ")}`,
+            details: { flags, features },
+        },
+    };
+}
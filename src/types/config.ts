@@ -2,8 +2,27 @@
  * Configuration type definitions
  */
 
-/** Accepted formats for Ed25519 public keys */
-export type PublicKeyInput = string | Uint8Array;
+import type { Ed25519PublicJWK } from "./keys.ts";
+import type { RevocationProvider, RevocationStateStore } from "./revocation.ts";
+import type { ClaimValidator } from "./validators.ts";
+
+/**
+ * Accepted formats for Ed25519 public keys: raw bytes, DER-encoded SPKI,
+ * hex, base64, PEM, or JWK (as object or JSON string)
+ */
+export type PublicKeyInput = string | Uint8Array | Ed25519PublicJWK;
+
+/** Trusted public key entry in a key ring */
+export interface TrustedKeyInput {
+    /** Key ID matched against the `kid` token header */
+    kid?: string;
+    /** Public key */
+    publicKey: PublicKeyInput;
+    /** Tokens issued (iat) before this Unix timestamp are rejected */
+    notBefore?: number;
+    /** Tokens issued (iat) after this Unix timestamp are rejected */
+    notAfter?: number;
+}
 
 /** Timing options for validation */
 export interface TimingOptions {
@@ -13,16 +32,96 @@ export interface TimingOptions {
     currentTime?: number;
 }
 
+/**
+ * Revoked signing key, identified by key ID, fingerprint, or both.
+ * When both are set, a key must match both to be revoked.
+ */
+export interface RevokedKey {
+    /**
+     * Key ID of the revoked key in the validator's key ring. Keys configured
+     * without a kid can only be revoked by fingerprint.
+     */
+    kid?: string;
+    /** SHA-256 fingerprint of the revoked key (hex or base64url) */
+    fingerprint?: string;
+    /**
+     * Only tokens issued (iat) at or after this Unix timestamp are rejected.
+     * Without it, every token signed by the key is rejected.
+     */
+    compromisedAt?: number;
+}
+
+/** Why a revocation list entry was added */
+export type RevocationReason =
+    | "refund"
+    | "chargeback"
+    | "key_compromise"
+    | "superseded";
+
+/** Revoked token ID or subject with details about the revocation */
+export interface RevocationEntry {
+    /** Token ID (jti) or subject (sub) */
+    id: string;
+    /** Why the entry was revoked */
+    reason?: RevocationReason;
+    /** When the entry was revoked (Unix timestamp) */
+    revokedAt?: number;
+    /**
+     * End of a temporary suspension (Unix timestamp). Tokens are rejected
+     * with TOKEN_SUSPENDED until then, and accepted again afterwards.
+     */
+    until?: number;
+    /**
+     * Flags withdrawn from the matching tokens. Entries with flags or
+     * features withdraw them instead of revoking the whole token.
+     */
+    flags?: string[];
+    /** Feature keys withdrawn from the matching tokens */
+    features?: string[];
+}
+
 /** Revocation list for invalidating tokens */
 export interface RevocationList {
     /** Revoked JWT IDs (jti claim) */
-    jti?: string[];
+    jti?: (string | RevocationEntry)[];
     /** Revoked subjects (sub claim) - all tokens for these subjects are invalid */
-    sub?: string[];
+    sub?: (string | RevocationEntry)[];
+    /** Revoked signing keys - tokens signed by these keys are invalid */
+    keys?: RevokedKey[];
+    /** Tokens issued (iat) before this Unix timestamp are invalid */
+    issuedBefore?: number;
+    /**
+     * Per-subject cutoffs - tokens for a subject issued (iat) before its
+     * Unix timestamp are invalid
+     */
+    subIssuedBefore?: Record<string, number>;
+    /** When the list was issued (Unix timestamp) */
+    iat?: number;
+    /**
+     * Sequence number, increased with every published list. Validators
+     * refuse lists older than the newest one they have seen.
+     */
+    seq?: number;
+    /** When the next list will be published (Unix timestamp) */
+    nextUpdate?: number;
 }
 
+/**
+ * What to do when the revocation list or a token's status list cannot be
+ * fetched, or the revocation list is past its nextUpdate time:
+ * - "fail-open": continue with the last fetched list, or without
+ *   revocation checks, and report a warning
+ * - "fail-closed": fail validation
+ * - { maxAge }: continue with the last fetched list while it is at most
+ *   maxAge seconds old, fail otherwise
+ */
+export type RevocationFailurePolicy =
+    | "fail-open"
+    | "fail-closed"
+    | { maxAge: number };
+
 /** Base validator configuration options */
-export interface ValidatorConfigBase {
+export interface ValidatorConfigBase<T = Record<string, unknown>> {
     /** Required flags that must be present in the flags array */
     requiredFlags?: string[];
     /** Required kind (exact match) */
@@ -33,19 +132,151 @@ export interface ValidatorConfigBase {
     timing?: TimingOptions;
     /** Allow tokens without expiration (default: false) */
     allowNoExpiration?: boolean;
+    /**
+     * Behavior when the revocation list or a status list cannot be fetched
+     * (default: "fail-open")
+     */
+    revocationFailurePolicy?: RevocationFailurePolicy;
+    /** Seconds a status list fetched for a token's status claim is reused (default: 300) */
+    statusListCacheTtl?: number;
+    /**
+     * Refuse unsigned lists at revocationUrl and unsigned status lists.
+     * Signed lists are always verified with the validator's trusted keys.
+     */
+    revocationRequireSignature?: boolean;
+    /**
+     * Where the newest sequence number seen per revocationUrl and status
+     * list URL is kept (default: shared in-memory store)
+     */
+    revocationStateStore?: RevocationStateStore;
+    /** Custom claim validators, run in order after the built-in claim checks */
+    claimValidators?: ClaimValidator<T>[];
 }
 
-/** Public key source - either direct key or URL */
+/** Public key source - direct key, key ring, key URL, JWKS URL, or key manifest */
 export type PublicKeySource =
-    | { publicKey: PublicKeyInput; publicKeyUrl?: never }
-    | { publicKey?: never; publicKeyUrl: string };
+    | {
+          publicKey: PublicKeyInput;
+          publicKeys?: never;
+          publicKeyUrl?: never;
+          jwksUrl?: never;
+          rootPublicKey?: never;
+      }
+    | {
+          publicKey?: never;
+          /** Multiple trusted keys, selected by the token's `kid` header */
+          publicKeys: TrustedKeyInput[];
+          publicKeyUrl?: never;
+          jwksUrl?: never;
+          rootPublicKey?: never;
+      }
+    | {
+          publicKey?: never;
+          publicKeys?: never;
+          publicKeyUrl: string;
+          jwksUrl?: never;
+          rootPublicKey?: never;
+          /**
+           * Seconds a fetched key is reused before it is revalidated
+           * (default: 300). A Cache-Control max-age on the response
+           * takes precedence.
+           */
+          publicKeyCacheTtl?: number;
+          /**
+           * Expected SHA-256 fingerprints of the fetched key (hex or
+           * base64url); any other key is refused
+           */
+          publicKeyPins?: string[];
+      }
+    | {
+          publicKey?: never;
+          publicKeys?: never;
+          publicKeyUrl?: never;
+          /** JWKS document listing Ed25519 signing keys (RFC 8037) */
+          jwksUrl: string;
+          rootPublicKey?: never;
+          /**
+           * Minimum delay in seconds between JWKS reloads triggered by an
+           * unknown `kid` (default: 30)
+           */
+          jwksRefreshCooldown?: number;
+      }
+    | ({
+          publicKey?: never;
+          publicKeys?: never;
+          publicKeyUrl?: never;
+          jwksUrl?: never;
+          /** Offline root key that signs the key manifest */
+          rootPublicKey: PublicKeyInput;
+      } & KeyManifestSource);
+
+/** Key manifest source - bundled manifest or manifest URL */
+export type KeyManifestSource =
+    | {
+          /** Signed key manifest (compact JWS with typ "KWM") */
+          keyManifest: string;
+          keyManifestUrl?: never;
+      }
+    | {
+          keyManifest?: never;
+          /** URL serving the signed key manifest */
+          keyManifestUrl: string;
+          /**
+           * Minimum delay in seconds between manifest reloads triggered
+           * by an unknown `kid` (default: 30)
+           */
+          keyManifestRefreshCooldown?: number;
+      };
 
-/** Revocation source - either static list or URL (both optional) */
+/** Revocation source - static list, URL, or custom provider (all optional) */
 export type RevocationSource =
-    | { revocation?: RevocationList; revocationUrl?: never }
-    | { revocation?: never; revocationUrl?: string };
+    | {
+          revocation?: RevocationList;
+          revocationUrl?: never;
+          revocationCacheTtl?: never;
+          revocationStaleWhileRevalidate?: never;
+          revocationDeltaUrl?: never;
+          revocationEventsUrl?: never;
+          revocationProvider?: never;
+      }
+    | {
+          revocation?: never;
+          revocationUrl?: string;
+          /** Seconds a fetched revocation list is reused (default: 60) */
+          revocationCacheTtl?: number;
+          /**
+           * Seconds an expired revocation list is still used while it is
+           * refreshed in the background (default: 0)
+           */
+          revocationStaleWhileRevalidate?: number;
+          /**
+           * URL serving the changes to the list at revocationUrl since the
+           * sequence number in its `since` query parameter. Used instead of
+           * refetching the full list once a list with a seq is cached.
+           */
+          revocationDeltaUrl?: string;
+          /**
+           * Server-Sent Events stream of revocation list deltas, applied to
+           * the cached list as they arrive. Connected while there are
+           * listeners added with subscribeToRevocations().
+           */
+          revocationEventsUrl?: string;
+          revocationProvider?: never;
+      }
+    | {
+          revocation?: never;
+          revocationUrl?: never;
+          revocationCacheTtl?: never;
+          revocationStaleWhileRevalidate?: never;
+          revocationDeltaUrl?: never;
+          revocationEventsUrl?: never;
+          /**
+           * Custom source of revocation decisions, e.g. a database. Status
+           * lists named by tokens are still checked afterwards.
+           */
+          revocationProvider: RevocationProvider;
+      };
 
 /** Validator configuration */
-export type ValidatorConfig = ValidatorConfigBase &
-    PublicKeySource &
-    RevocationSource;
+export type ValidatorConfig<T = Record<string, unknown>> =
+    ValidatorConfigBase<T> & PublicKeySource & RevocationSource;
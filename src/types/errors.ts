@@ -8,9 +8,16 @@ export type ValidationErrorCode =
     | "INVALID_HEADER"
     | "INVALID_PAYLOAD"
     | "SIGNATURE_VERIFICATION_FAILED"
+    | "UNKNOWN_KEY_ID"
+    | "KEY_NOT_ACTIVE"
+    | "KEY_MANIFEST_EXPIRED"
     | "TOKEN_EXPIRED"
     | "TOKEN_NOT_YET_VALID"
     | "TOKEN_REVOKED"
+    | "TOKEN_SUSPENDED"
+    | "SIGNING_KEY_REVOKED"
+    | "REVOCATION_UNAVAILABLE"
+    | "REVOCATION_LIST_OUTDATED"
     | "CLAIM_MISMATCH"
     | "MISSING_REQUIRED_FLAG"
     | "MISSING_REQUIRED_FEATURE"
@@ -19,11 +26,19 @@ export type ValidationErrorCode =
     | "INVALID_ISSUER"
     | "INVALID_AUDIENCE"
     | "UNSUPPORTED_VERSION"
-    | "DOMAIN_NOT_ALLOWED";
+    | "DOMAIN_NOT_ALLOWED"
+    | "CLAIM_VALIDATOR_FAILED";
+
+/**
+ * Error code reported by a custom claim validator, namespaced as
+ * "namespace:CODE" (e.g. "acme:SEAT_LIMIT") so it cannot clash with
+ * built-in codes
+ */
+export type CustomErrorCode = `${string}:${string}`;
 
 /** Validation error with code and details */
 export interface ValidationError {
-    code: ValidationErrorCode;
+    code: ValidationErrorCode | CustomErrorCode;
     message: string;
     details?: Record<string, unknown>;
 }
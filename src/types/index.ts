@@ -5,32 +5,91 @@
 // Configuration types
 export type {
     PublicKeyInput,
+    RevocationEntry,
+    RevocationFailurePolicy,
     RevocationList,
+    RevocationReason,
+    RevokedKey,
     TimingOptions,
+    TrustedKeyInput,
     ValidatorConfig,
 } from "./config.ts";
 // Error types
-export type { ValidationError, ValidationErrorCode } from "./errors.ts";
+export type {
+    CustomErrorCode,
+    ValidationError,
+    ValidationErrorCode,
+} from "./errors.ts";
 // Helper types
 export type {
     DomainCheckResult,
     ExpirationInfo,
     FlagCheckResult,
 } from "./helpers.ts";
+// Issuer types
+export type {
+    IssueClaims,
+    IssueOptions,
+    IssuerConfig,
+    PrivateKeyInput,
+} from "./issuer.ts";
 // JWT types
 export type {
     DecodedJWT,
     JWTHeader,
+    KeyWritTokenType,
     LicenseClaims,
     LicensePayload,
     StandardClaims,
 } from "./jwt.ts";
-
+// Key types
+export type {
+    Ed25519PrivateJWK,
+    Ed25519PublicJWK,
+    KeyFormat,
+    KeyPair,
+    TrustedKey,
+} from "./keys.ts";
+// Key manifest types
+export type {
+    KeyManifestKey,
+    KeyManifestKeyInput,
+    KeyManifestPayload,
+} from "./manifest.ts";
 // Result types
 export type {
     ValidationFailure,
     ValidationResult,
     ValidationSuccess,
 } from "./results.ts";
+// Revocation types
+export type {
+    RevocationCheckContext,
+    RevocationContext,
+    RevocationListAdditions,
+    RevocationListDelta,
+    RevocationListDeltaPayload,
+    RevocationListPayload,
+    RevocationListRemovals,
+    RevocationProvider,
+    RevocationStateStore,
+    RevocationStatus,
+    RevocationUpdate,
+    RevocationUpdateListener,
+    StatusListDocument,
+    StatusListPayload,
+    StatusListReference,
+    WithdrawnEntitlements,
+} from "./revocation.ts";
+// Custom claim validator types
+export type {
+    ClaimValidator,
+    ClaimValidatorContext,
+    ClaimValidatorResult,
+} from "./validators.ts";
 // Warning types
-export type { ValidationWarning, ValidationWarningCode } from "./warnings.ts";
+export type {
+    CustomWarningCode,
+    ValidationWarning,
+    ValidationWarningCode,
+} from "./warnings.ts";
@@ -0,0 +1,35 @@
+/**
+ * License issuance type definitions
+ */
+
+import type { LicenseClaims, StandardClaims } from "./jwt.ts";
+
+/** Accepted formats for Ed25519 private keys */
+export type PrivateKeyInput = string | Uint8Array;
+
+/** Issuer configuration */
+export interface IssuerConfig {
+    /** Ed25519 private key used to sign tokens */
+    privateKey: PrivateKeyInput;
+    /** Key ID written to the `kid` header so validators can select the key */
+    kid?: string;
+}
+
+/**
+ * Claims accepted when issuing a license.
+ * The issuer is always set to KEYWRIT_ISSUER, so `iss` cannot be provided.
+ */
+export type IssueClaims<T = Record<string, unknown>> = Omit<
+    StandardClaims,
+    "iss"
+> &
+    LicenseClaims &
+    T;
+
+/** Options for issuing a single license */
+export interface IssueOptions {
+    /** Lifetime in seconds, used to compute `exp` when the claims omit it */
+    expiresIn?: number;
+    /** Custom current time for `iat` (Unix timestamp) */
+    currentTime?: number;
+}
@@ -2,13 +2,23 @@
  * JWT-related type definitions
  */
 
+import type { StatusListReference } from "./revocation.ts";
+
+/**
+ * KeyWrit token types: licenses (KWL), key manifests (KWM) and signed
+ * revocation lists (KWR)
+ */
+export type KeyWritTokenType = "KWL" | "KWM" | "KWR";
+
 /** JWT Header for EdDSA tokens */
 export interface JWTHeader {
     alg: "EdDSA";
-    /** KeyWrit License type */
-    typ: "KWL";
+    /** KeyWrit token type */
+    typ: KeyWritTokenType;
     /** KeyWrit version */
     kwv: number;
+    /** Key ID of the signing key */
+    kid?: string;
 }
 
 /** Standard JWT claims */
@@ -44,6 +54,8 @@ export interface LicenseClaims {
      * If undefined, domain checking is not enforced.
      */
     allowedDomains?: string[];
+    /** Entry in a bitstring status list that records revocation */
+    status?: StatusListReference;
 }
 
 /** Complete license payload combining standard and license claims */
@@ -0,0 +1,46 @@
+/**
+ * Key type definitions
+ */
+
+/** Ed25519 key pair */
+export interface KeyPair {
+    /** 32-byte public key */
+    publicKey: Uint8Array;
+    /** 32-byte private key (seed) */
+    privateKey: Uint8Array;
+}
+
+/** Public key trusted by a validator, optionally identified by a key ID */
+export interface TrustedKey {
+    /** Key ID matched against the `kid` token header */
+    kid?: string;
+    /** 32-byte public key */
+    publicKey: Uint8Array;
+    /** Start of the key's signing window (Unix timestamp) */
+    notBefore?: number;
+    /** End of the key's signing window (Unix timestamp) */
+    notAfter?: number;
+}
+
+/** Serialization formats supported for key export and import */
+export type KeyFormat = "hex" | "base64url" | "pem" | "jwk";
+
+/** Ed25519 public key as a JSON Web Key (RFC 8037) */
+export interface Ed25519PublicJWK {
+    kty: "OKP";
+    crv: "Ed25519";
+    /** Base64url-encoded public key */
+    x: string;
+    /** Key ID */
+    kid?: string;
+    /** Intended use ("sig" for signing keys) */
+    use?: string;
+    /** Algorithm ("EdDSA") */
+    alg?: string;
+}
+
+/** Ed25519 private key as a JSON Web Key (RFC 8037) */
+export interface Ed25519PrivateJWK extends Ed25519PublicJWK {
+    /** Base64url-encoded private key (seed) */
+    d: string;
+}
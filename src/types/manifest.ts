@@ -0,0 +1,32 @@
+/**
+ * Key manifest type definitions
+ */
+
+import type { TrustedKeyInput } from "./config.ts";
+
+/** Signing key listed in a key manifest */
+export interface KeyManifestKey {
+    /** Key ID matched against the `kid` token header */
+    kid: string;
+    /** Base64url-encoded Ed25519 public key */
+    publicKey: string;
+    /** Tokens issued (iat) before this Unix timestamp are rejected */
+    notBefore?: number;
+    /** Tokens issued (iat) after this Unix timestamp are rejected */
+    notAfter?: number;
+}
+
+/** Payload of a signed key manifest */
+export interface KeyManifestPayload {
+    /** Always KEYWRIT_ISSUER */
+    iss: string;
+    /** Issued at (Unix timestamp) */
+    iat: number;
+    /** Expiration time (Unix timestamp); the manifest is refused afterwards */
+    exp?: number;
+    /** Authorized signing keys */
+    keys: KeyManifestKey[];
+}
+
+/** Signing key to list in a key manifest; every key needs a key ID */
+export type KeyManifestKeyInput = TrustedKeyInput & { kid: string };
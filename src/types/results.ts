@@ -11,6 +11,8 @@ export interface ValidationSuccess<T = Record<string, unknown>> {
     valid: true;
     license: LicensePayload<T>;
     warnings?: ValidationWarning[];
+    /** Key ID of the trusted key that verified the signature, if it has one */
+    keyId?: string;
 }
 
 /** Failed validation result */
@@ -18,6 +20,8 @@ export interface ValidationFailure {
     valid: false;
     error: ValidationError;
     errors?: ValidationError[];
+    /** Warnings collected before validation failed */
+    warnings?: ValidationWarning[];
     /** Unverified payload for debugging (available if parsing succeeded) */
     unverifiedPayload?: LicensePayload;
 }
@@ -0,0 +1,203 @@
+/**
+ * Revocation list type definitions
+ */
+
+import type { RevocationList, RevokedKey } from "./config.ts";
+import type { ValidationError } from "./errors.ts";
+import type { LicensePayload } from "./jwt.ts";
+import type { TrustedKey } from "./keys.ts";
+import type { ValidationWarning } from "./warnings.ts";
+
+/** Payload of a signed revocation list */
+export interface RevocationListPayload {
+    /** Always KEYWRIT_ISSUER */
+    iss: string;
+    /** Realm the list applies to */
+    aud: string;
+    /** Issued at (Unix timestamp) */
+    iat: number;
+    /** Expiration time (Unix timestamp); the list is refused afterwards */
+    exp?: number;
+    /** The revoked entries */
+    revocation: RevocationList;
+}
+
+/**
+ * Entries a revocation list delta adds. Entries with the same ID, keys
+ * and cutoffs replace existing ones.
+ */
+export type RevocationListAdditions = Pick<
+    RevocationList,
+    "jti" | "sub" | "keys" | "issuedBefore" | "subIssuedBefore"
+>;
+
+/** Entries a revocation list delta removes */
+export interface RevocationListRemovals {
+    /** Token IDs no longer revoked */
+    jti?: string[];
+    /** Subjects no longer revoked */
+    sub?: string[];
+    /** Revoked keys to drop, matched by kid and fingerprint */
+    keys?: RevokedKey[];
+    /** Subjects whose issuedBefore cutoff is dropped */
+    subIssuedBefore?: string[];
+    /** Drop the issuedBefore cutoff */
+    issuedBefore?: boolean;
+}
+
+/**
+ * Changes between two revocation lists, identified by their sequence
+ * numbers. A delta only applies to the list with sequence `since`.
+ */
+export interface RevocationListDelta {
+    /** Sequence number of the list the changes apply to */
+    since: number;
+    /** Sequence number of the list after the changes */
+    seq: number;
+    /** When the resulting list was issued (Unix timestamp) */
+    iat?: number;
+    /** When the next list will be published (Unix timestamp) */
+    nextUpdate?: number;
+    /** Entries added since `since` */
+    add?: RevocationListAdditions;
+    /** Entries removed since `since` */
+    remove?: RevocationListRemovals;
+}
+
+/** Payload of a signed revocation list delta */
+export interface RevocationListDeltaPayload {
+    /** Always KEYWRIT_ISSUER */
+    iss: string;
+    /** Realm the delta applies to */
+    aud: string;
+    /** Issued at (Unix timestamp) */
+    iat: number;
+    /** Expiration time (Unix timestamp); the delta is refused afterwards */
+    exp?: number;
+    /** The changes */
+    delta: RevocationListDelta;
+}
+
+/**
+ * Persistent state kept across revocation list fetches, used to refuse
+ * lists older than the newest one seen (rollback protection)
+ */
+export interface RevocationStateStore {
+    /** Newest sequence number seen for a revocation list URL */
+    getSequence(url: string): number | undefined | Promise<number | undefined>;
+    /** Remember the newest sequence number seen for a revocation list URL */
+    setSequence(url: string, seq: number): void | Promise<void>;
+}
+
+/** Reference from a token to its entry in a bitstring status list */
+export interface StatusListReference {
+    /** URL serving the status list document */
+    url: string;
+    /** Index of the token's bit in the list */
+    index: number;
+}
+
+/** Status list document served at a status list URL */
+export interface StatusListDocument {
+    /** Base64url-encoded, gzip-compressed bitstring */
+    encodedList: string;
+    /**
+     * Sequence number, incremented on every change. Validators refuse a
+     * list older than the newest one they have seen from its URL.
+     */
+    seq?: number;
+}
+
+/** Payload of a signed status list */
+export interface StatusListPayload {
+    /** Always KEYWRIT_ISSUER */
+    iss: string;
+    /** Realm the list applies to */
+    aud: string;
+    /** Issued at (Unix timestamp) */
+    iat: number;
+    /** Expiration time (Unix timestamp); the list is refused afterwards */
+    exp?: number;
+    /** The status list */
+    statusList: StatusListDocument;
+}
+
+/** Validator state passed to revocation providers */
+export interface RevocationContext {
+    /** Realm being validated */
+    realm: string;
+    /** Keys trusted by the validator, e.g. for verifying signed lists */
+    keys: readonly TrustedKey[];
+}
+
+/** Token being checked by a revocation provider, besides its payload */
+export interface RevocationCheckContext extends RevocationContext {
+    /** Trusted key that verified the token's signature */
+    key: TrustedKey;
+    /**
+     * Current time (Unix timestamp) used for suspensions and the list's
+     * nextUpdate (default: now)
+     */
+    currentTime?: number;
+}
+
+/** Flags and feature keys withdrawn from a token that is not revoked */
+export interface WithdrawnEntitlements {
+    /** Withdrawn flags */
+    flags?: string[];
+    /** Withdrawn feature keys */
+    features?: string[];
+}
+
+/** Result of a revocation provider's check */
+export interface RevocationStatus {
+    /** True when the token must be rejected */
+    revoked: boolean;
+    /**
+     * Error reported for a rejected token (default: a TOKEN_REVOKED error).
+     * Use REVOCATION_UNAVAILABLE when the provider could not check.
+     */
+    error?: ValidationError;
+    /** Warnings added to the validation result */
+    warnings?: ValidationWarning[];
+    /** Flags and features removed from the license of an accepted token */
+    withdrawn?: WithdrawnEntitlements;
+}
+
+/** Revocation data pushed to a provider that has been applied */
+export interface RevocationUpdate {
+    /** Where the update came from, e.g. the revocation list URL */
+    source: string;
+    /** Sequence number of the updated revocation list, if it has one */
+    seq?: number;
+}
+
+/** Called after a pushed revocation update has been applied */
+export type RevocationUpdateListener = (
+    update: RevocationUpdate,
+) => void | Promise<void>;
+
+/**
+ * Source of revocation decisions, such as a revocation list, a database,
+ * or several sources combined
+ */
+export interface RevocationProvider {
+    /** Check whether a token with a verified signature is revoked */
+    isRevoked(
+        payload: LicensePayload,
+        context: RevocationCheckContext,
+    ): Promise<RevocationStatus>;
+    /**
+     * Reload the provider's data, bypassing any cache.
+     * Returns false if it could not be reloaded.
+     */
+    refresh?(context: RevocationContext): Promise<boolean>;
+    /**
+     * Listen for revocation data pushed to the provider, e.g. over
+     * Server-Sent Events. Returns a function that stops listening.
+     */
+    subscribe?(
+        context: RevocationContext,
+        listener: RevocationUpdateListener,
+    ): () => Promise<void>;
+}
@@ -0,0 +1,38 @@
+/**
+ * Custom claim validator type definitions
+ */
+
+import type { ValidationError } from "./errors.ts";
+import type { LicensePayload } from "./jwt.ts";
+import type { ValidationWarning } from "./warnings.ts";
+
+/** Validation state passed to custom claim validators */
+export interface ClaimValidatorContext {
+    /** Realm being validated */
+    realm: string;
+    /** Current time (Unix timestamp), honoring timing.currentTime */
+    currentTime: number;
+    /** Key ID of the trusted key that verified the signature, if it has one */
+    keyId?: string;
+}
+
+/** Issues found by a custom claim validator */
+export interface ClaimValidatorResult {
+    /** Errors that fail validation */
+    errors?: ValidationError[];
+    /** Warnings added to the validation result */
+    warnings?: ValidationWarning[];
+}
+
+/**
+ * Custom check of a license whose signature has been verified, run after
+ * the built-in claim checks. Return nothing when the license passes.
+ * A validator that throws fails validation with CLAIM_VALIDATOR_FAILED.
+ */
+export type ClaimValidator<T = Record<string, unknown>> = (
+    payload: LicensePayload<T>,
+    context: ClaimValidatorContext,
+) =>
+    | ClaimValidatorResult
+    | undefined
+    | Promise<ClaimValidatorResult | undefined>;
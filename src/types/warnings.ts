@@ -6,11 +6,19 @@
 export type ValidationWarningCode =
     | "EXPIRING_SOON"
     | "NO_EXPIRATION"
-    | "CLOCK_SKEW_APPLIED";
+    | "CLOCK_SKEW_APPLIED"
+    | "KEY_RETIRING_SOON"
+    | "STALE_PUBLIC_KEY"
+    | "REVOCATION_UNAVAILABLE"
+    | "REVOCATION_LIST_OUTDATED"
+    | "ENTITLEMENTS_WITHDRAWN";
+
+/** Warning code reported by a custom claim validator, namespaced as "namespace:CODE" */
+export type CustomWarningCode = `${string}:${string}`;
 
 /** Validation warning */
 export interface ValidationWarning {
-    code: ValidationWarningCode;
+    code: ValidationWarningCode | CustomWarningCode;
     message: string;
     details?: Record<string, unknown>;
 }
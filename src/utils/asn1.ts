@@ -0,0 +1,142 @@
+/**
+ * Minimal ASN.1 DER parsing for SubjectPublicKeyInfo structures (RFC 5280)
+ */
+
+/** DER tag numbers used by SubjectPublicKeyInfo */
+const TAG_SEQUENCE = 0x30;
+const TAG_BIT_STRING = 0x03;
+const TAG_OID = 0x06;
+
+/** A decoded DER element */
+interface DerElement {
+    tag: number;
+    /** Offset of the first content byte */
+    start: number;
+    /** Offset just past the last content byte */
+    end: number;
+}
+
+/** Parsed SubjectPublicKeyInfo */
+export interface SubjectPublicKeyInfo {
+    /** Algorithm OID in dotted notation */
+    algorithm: string;
+    /** Algorithm parameter OID (e.g. the named curve for EC keys) */
+    parameters?: string;
+    /** Raw public key bits */
+    publicKey: Uint8Array;
+}
+
+/**
+ * Read the DER element starting at an offset
+ */
+function readElement(der: Uint8Array, offset: number): DerElement {
+    const tag = der[offset];
+    let length = der[offset + 1];
+    if (tag === undefined || length === undefined) {
+        throw new Error("Invalid DER: unexpected end of data");
+    }
+
+    let start = offset + 2;
+    if (length & 0x80) {
+        const lengthBytes = length & 0x7f;
+        if (lengthBytes === 0 || lengthBytes > 4) {
+            throw new Error("Invalid DER: unsupported length encoding");
+        }
+        length = 0;
+        for (let i = 0; i < lengthBytes; i++) {
+            length = length * 256 + (der[start + i] ?? 0);
+        }
+        start += lengthBytes;
+    }
+
+    const end = start + length;
+    if (end > der.length) {
+        throw new Error("Invalid DER: element exceeds data length");
+    }
+    return { tag, start, end };
+}
+
+/**
+ * Read a DER element and check its tag
+ */
+function expectElement(
+    der: Uint8Array,
+    offset: number,
+    tag: number,
+    name: string,
+): DerElement {
+    const element = readElement(der, offset);
+    if (element.tag !== tag) {
+        throw new Error(`Invalid DER: expected ${name}`);
+    }
+    return element;
+}
+
+/**
+ * Decode an OBJECT IDENTIFIER into dotted notation
+ */
+function decodeOid(bytes: Uint8Array): string {
+    const parts: number[] = [];
+    let value = 0;
+    for (const byte of bytes) {
+        value = value * 128 + (byte & 0x7f);
+        if (!(byte & 0x80)) {
+            parts.push(value);
+            value = 0;
+        }
+    }
+
+    const first = parts.shift() ?? 0;
+    const head =
+        first < 80 ? [Math.floor(first / 40), first % 40] : [2, first - 80];
+    return [...head, ...parts].join(".");
+}
+
+/**
+ * Parse a DER-encoded SubjectPublicKeyInfo
+ */
+export function parseSpki(der: Uint8Array): SubjectPublicKeyInfo {
+    const spki = expectElement(der, 0, TAG_SEQUENCE, "SEQUENCE");
+    if (spki.end !== der.length) {
+        throw new Error(
+            "Invalid DER: trailing data after SubjectPublicKeyInfo",
+        );
+    }
+
+    const algorithmIdentifier = expectElement(
+        der,
+        spki.start,
+        TAG_SEQUENCE,
+        "AlgorithmIdentifier",
+    );
+    const algorithmOid = expectElement(
+        der,
+        algorithmIdentifier.start,
+        TAG_OID,
+        "algorithm OID",
+    );
+
+    let parameters: string | undefined;
+    if (algorithmOid.end < algorithmIdentifier.end) {
+        const parameter = readElement(der, algorithmOid.end);
+        if (parameter.tag === TAG_OID) {
+            parameters = decodeOid(der.slice(parameter.start, parameter.end));
+        }
+    }
+
+    const bitString = expectElement(
+        der,
+        algorithmIdentifier.end,
+        TAG_BIT_STRING,
+        "BIT STRING",
+    );
+    if (der[bitString.start] !== 0) {
+        throw new Error("Invalid DER: public key has unused bits");
+    }
+
+    return {
+        algorithm: decodeOid(der.slice(algorithmOid.start, algorithmOid.end)),
+        parameters,
+        publicKey: der.slice(bitString.start + 1, bitString.end),
+    };
+}
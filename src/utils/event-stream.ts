@@ -0,0 +1,248 @@
+/**
+ * Server-Sent Events client with reconnection and Last-Event-ID
+ */
+
+/** Default delay in milliseconds before the first reconnection attempt */
+export const DEFAULT_RECONNECT_DELAY = 1000;
+
+/** Default upper bound in milliseconds of the reconnection delay */
+export const DEFAULT_MAX_RECONNECT_DELAY = 30000;
+
+/** An event received from the stream */
+export interface ServerSentEvent {
+    /** Event type (default: "message") */
+    event: string;
+    /** Event data, with multiple data lines joined by newlines */
+    data: string;
+    /** Last event ID set by the stream, if any */
+    id?: string;
+}
+
+/** Options for an event stream */
+export interface EventStreamOptions {
+    /** Called for each event; the next event waits for it to settle */
+    onEvent: (event: ServerSentEvent) => void | Promise<void>;
+    /** Called once a connection is established */
+    onOpen?: () => void;
+    /** Called when a connection fails or is dropped, before reconnecting */
+    onError?: (error: Error) => void;
+    /** Event ID sent in Last-Event-ID on the first connection */
+    lastEventId?: string;
+    /** Milliseconds before the first reconnection attempt (default: 1000) */
+    reconnectDelay?: number;
+    /**
+     * Upper bound in milliseconds of the reconnection delay, which doubles
+     * with every failed attempt (default: 30000)
+     */
+    maxReconnectDelay?: number;
+}
+
+/**
+ * Client for a text/event-stream endpoint.
+ * Dropped connections are reopened with exponential backoff, sending the
+ * ID of the last event received in Last-Event-ID so that the server can
+ * replay missed events. A `retry` field from the server replaces the
+ * initial reconnection delay.
+ */
+export class EventStream {
+    public readonly url: string;
+    private readonly options: EventStreamOptions;
+    private eventId?: string;
+    private reconnectDelay: number;
+    private controller?: AbortController;
+    private wake?: () => void;
+    private running?: Promise<void>;
+
+    public constructor(url: string, options: EventStreamOptions) {
+        this.url = url;
+        this.options = options;
+        this.eventId = options.lastEventId;
+        this.reconnectDelay = options.reconnectDelay ?? DEFAULT_RECONNECT_DELAY;
+    }
+
+    /** ID of the last event received */
+    public get lastEventId(): string | undefined {
+        return this.eventId;
+    }
+
+    /**
+     * Open the stream. Does nothing if it is already open.
+     */
+    public start(): void {
+        if (!this.running) {
+            this.controller = new AbortController();
+            this.running = this.run(this.controller.signal);
+        }
+    }
+
+    /**
+     * Close the stream and stop reconnecting.
+     * Resolves once the current connection has been released.
+     */
+    public async close(): Promise<void> {
+        const running = this.running;
+        this.controller?.abort();
+        this.wake?.();
+        this.running = undefined;
+        await running;
+    }
+
+    /**
+     * Connect, and reconnect with backoff until closed
+     */
+    private async run(signal: AbortSignal): Promise<void> {
+        let delay = this.reconnectDelay;
+        while (!signal.aborted) {
+            try {
+                await this.connect(signal, () => {
+                    delay = this.reconnectDelay;
+                });
+                if (!signal.aborted) {
+                    this.options.onError?.(new Error("Event stream closed"));
+                }
+            } catch (error) {
+                if (!signal.aborted) {
+                    this.options.onError?.(error as Error);
+                }
+            }
+            if (signal.aborted) {
+                break;
+            }
+            await this.sleep(delay);
+            delay = Math.min(
+                delay * 2,
+                this.options.maxReconnectDelay ?? DEFAULT_MAX_RECONNECT_DELAY,
+            );
+        }
+    }
+
+    /**
+     * Open one connection and dispatch its events until it ends
+     */
+    private async connect(
+        signal: AbortSignal,
+        opened: () => void,
+    ): Promise<void> {
+        const headers: Record<string, string> = {
+            Accept: "text/event-stream",
+        };
+        if (this.eventId) {
+            headers["Last-Event-ID"] = this.eventId;
+        }
+        const response = await fetch(this.url, { headers, signal });
+        if (!response.ok) {
+            throw new Error(
+                `Event stream responded ${response.status} ${response.statusText}`,
+            );
+        }
+        if (!response.body) {
+            throw new Error("Event stream has no body");
+        }
+        opened();
+        this.options.onOpen?.();
+
+        const reader = response.body
+            .pipeThrough(new TextDecoderStream())
+            .getReader();
+        const lines = new LineBuffer();
+        let pending: { event?: string; data: string[] } = { data: [] };
+        try {
+            for (;;) {
+                const { done, value } = await reader.read();
+                if (done) {
+                    return;
+                }
+                for (const line of lines.push(value)) {
+                    if (line === "") {
+                        await this.dispatch(pending);
+                        pending = { data: [] };
+                    } else {
+                        this.parseField(line, pending);
+                    }
+                }
+            }
+        } finally {
+            reader.releaseLock();
+        }
+    }
+
+    /**
+     * Apply a field line to the event being received
+     */
+    private parseField(
+        line: string,
+        pending: { event?: string; data: string[] },
+    ): void {
+        if (line.startsWith(":")) {
+            return;
+        }
+        const colon = line.indexOf(":");
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let value = colon === -1 ? "" : line.slice(colon + 1);
+        if (value.startsWith(" ")) {
+            value = value.slice(1);
+        }
+
+        if (field === "event") {
+            pending.event = value;
+        } else if (field === "data") {
+            pending.data.push(value);
+        } else if (field === "id" && !value.includes("\0")) {
+            this.eventId = value;
+        } else if (field === "retry" && /^\d+$/.test(value)) {
+            this.reconnectDelay = Number(value);
+        }
+    }
+
+    /**
+     * Deliver a completed event. Events without data are not delivered.
+     */
+    private async dispatch(pending: {
+        event?: string;
+        data: string[];
+    }): Promise<void> {
+        if (pending.data.length === 0) {
+            return;
+        }
+        await this.options.onEvent({
+            event: pending.event || "message",
+            data: pending.data.join("\n"),
+            id: this.eventId,
+        });
+    }
+
+    /**
+     * Wait before reconnecting; ends early when the stream is closed
+     */
+    private sleep(ms: number): Promise<void> {
+        return new Promise((resolve) => {
+            const timer = setTimeout(resolve, ms);
+            this.wake = () => {
+                clearTimeout(timer);
+                resolve();
+            };
+        });
+    }
+}
+
+/**
+ * Splits streamed text into lines ending in CRLF, LF or CR
+ */
+class LineBuffer {
+    private buffer = "";
+
+    /**
+     * Add a chunk and return the lines it completes
+     */
+    public push(chunk: string): string[] {
+        let text = this.buffer + chunk;
+        // A trailing CR may be the first half of a CRLF split across chunks
+        const carry = text.endsWith("\r") ? "\r" : "";
+        if (carry) {
+            text = text.slice(0, -1);
+        }
+        const lines = text.split(/\r\n|\r|\n/);
+        this.buffer = (lines.pop() ?? "") + carry;
+        return lines;
+    }
+}
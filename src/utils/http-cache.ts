@@ -0,0 +1,263 @@
+/**
+ * In-memory HTTP cache with conditional requests and stale fallback
+ */
+
+import { now } from "./time.ts";
+
+/** A cached response */
+export interface CachedResponse<T> {
+    /** Parsed response body */
+    value: T;
+    /** Unix timestamp of the last successful fetch or revalidation */
+    fetchedAt: number;
+    /** True when the body could not be refreshed and an old copy was served */
+    stale: boolean;
+    /** Why the refresh failed (set when stale) */
+    error?: string;
+}
+
+/** Options for a cached fetch */
+export interface HttpCacheFetchOptions<T> {
+    /** Freshness lifetime in seconds when the response sets no max-age */
+    ttl: number;
+    /** Name of the fetched resource used in error messages */
+    label: string;
+    /** Parses the response body; a throwing parse counts as a failed fetch */
+    parse: (body: string) => T | Promise<T>;
+    /**
+     * Seconds after expiry during which the cached value is still served
+     * while it is revalidated in the background
+     */
+    staleWhileRevalidate?: number;
+    /** Revalidate even if the cached value is fresh */
+    force?: boolean;
+}
+
+/** A stored response */
+interface CacheEntry<T> {
+    value: T;
+    etag?: string;
+    fetchedAt: number;
+    expiresAt: number;
+}
+
+/**
+ * Read the freshness lifetime from a Cache-Control header.
+ * Returns null when the response must not be stored, undefined when
+ * the header does not set a lifetime.
+ */
+function parseCacheControl(header: string | null): number | null | undefined {
+    if (!header) {
+        return undefined;
+    }
+
+    const directives = header
+        .split(",")
+        .map((directive) => directive.trim().toLowerCase());
+    if (directives.includes("no-store")) {
+        return null;
+    }
+    if (directives.includes("no-cache")) {
+        return 0;
+    }
+    for (const directive of directives) {
+        const match = directive.match(/^max-age=(\d+)$/);
+        if (match) {
+            return Number(match[1]);
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Cache of parsed responses keyed by URL.
+ * Fresh entries are served without a request; expired entries are
+ * revalidated with If-None-Match (in the background while within the
+ * stale-while-revalidate window), and served as stale when the
+ * revalidation fails.
+ */
+export class HttpCache<T> {
+    private readonly entries = new Map<string, CacheEntry<T>>();
+    private readonly pending = new Map<string, Promise<CachedResponse<T>>>();
+
+    /**
+     * Fetch a URL through the cache.
+     * The Cache-Control max-age of the response takes precedence over `ttl`.
+     * Throws if the request fails and nothing is cached for the URL.
+     */
+    public async fetch(
+        url: string,
+        options: HttpCacheFetchOptions<T>,
+    ): Promise<CachedResponse<T>> {
+        const entry = this.entries.get(url);
+        if (entry && !options.force) {
+            const currentTime = now();
+            if (currentTime < entry.expiresAt) {
+                return {
+                    value: entry.value,
+                    fetchedAt: entry.fetchedAt,
+                    stale: false,
+                };
+            }
+
+            // Serve the expired value and refresh it in the background
+            if (
+                currentTime <
+                entry.expiresAt + (options.staleWhileRevalidate ?? 0)
+            ) {
+                // Never rejects: failures fall back to the cached entry
+                void this.revalidate(url, entry, options);
+                return {
+                    value: entry.value,
+                    fetchedAt: entry.fetchedAt,
+                    stale: false,
+                };
+            }
+        }
+
+        return this.revalidate(url, entry, options);
+    }
+
+    /**
+     * Fetch or conditionally refetch a URL, sharing one in-flight request
+     * between concurrent callers
+     */
+    private revalidate(
+        url: string,
+        entry: CacheEntry<T> | undefined,
+        options: HttpCacheFetchOptions<T>,
+    ): Promise<CachedResponse<T>> {
+        let pending = this.pending.get(url);
+        if (!pending) {
+            pending = this.request(url, entry, options).finally(() => {
+                this.pending.delete(url);
+            });
+            this.pending.set(url, pending);
+        }
+        return pending;
+    }
+
+    /**
+     * Send the request and store the result
+     */
+    private async request(
+        url: string,
+        entry: CacheEntry<T> | undefined,
+        options: HttpCacheFetchOptions<T>,
+    ): Promise<CachedResponse<T>> {
+        const fail = (error: string): CachedResponse<T> => {
+            if (!entry) {
+                throw new Error(
+                    `Failed to fetch ${options.label} from ${url}: ${error}`,
+                );
+            }
+            return {
+                value: entry.value,
+                fetchedAt: entry.fetchedAt,
+                stale: true,
+                error,
+            };
+        };
+
+        let response: Response;
+        try {
+            response = await fetch(
+                url,
+                entry?.etag
+                    ? { headers: { "If-None-Match": entry.etag } }
+                    : undefined,
+            );
+        } catch (error) {
+            return fail((error as Error).message);
+        }
+
+        if (entry && response.status === 304) {
+            return this.store(url, response, options.ttl, {
+                ...entry,
+                etag: response.headers.get("ETag") ?? entry.etag,
+            });
+        }
+        if (!response.ok) {
+            return fail(`${response.status} ${response.statusText}`);
+        }
+
+        let value: T;
+        try {
+            value = await options.parse(await response.text());
+        } catch (error) {
+            return fail((error as Error).message);
+        }
+        return this.store(url, response, options.ttl, {
+            value,
+            etag: response.headers.get("ETag") ?? undefined,
+        });
+    }
+
+    /**
+     * Read the cached response for a URL without fetching it.
+     * `fresh` is false once the entry has expired.
+     */
+    public peek(
+        url: string,
+    ): (CachedResponse<T> & { fresh: boolean }) | undefined {
+        const entry = this.entries.get(url);
+        if (!entry) {
+            return undefined;
+        }
+        return {
+            value: entry.value,
+            fetchedAt: entry.fetchedAt,
+            stale: false,
+            fresh: now() < entry.expiresAt,
+        };
+    }
+
+    /**
+     * Replace the cached value for a URL with one obtained elsewhere, such
+     * as by patching the cached value. The entry is fresh for `ttl`
+     * seconds and is refetched without If-None-Match afterwards.
+     */
+    public set(url: string, value: T, ttl: number): CachedResponse<T> {
+        const fetchedAt = now();
+        this.entries.set(url, { value, fetchedAt, expiresAt: fetchedAt + ttl });
+        return { value, fetchedAt, stale: false };
+    }
+
+    /**
+     * Drop the cached response for a URL, or every cached response
+     */
+    public clear(url?: string): void {
+        if (url === undefined) {
+            this.entries.clear();
+        } else {
+            this.entries.delete(url);
+        }
+    }
+
+    /**
+     * Store a fetched or revalidated value
+     */
+    private store(
+        url: string,
+        response: Response,
+        ttl: number,
+        fetched: { value: T; etag?: string },
+    ): CachedResponse<T> {
+        const fetchedAt = now();
+        const lifetime = parseCacheControl(
+            response.headers.get("Cache-Control"),
+        );
+
+        if (lifetime === null) {
+            this.entries.delete(url);
+        } else {
+            this.entries.set(url, {
+                value: fetched.value,
+                etag: fetched.etag,
+                fetchedAt,
+                expiresAt: fetchedAt + (lifetime ?? ttl),
+            });
+        }
+        return { value: fetched.value, fetchedAt, stale: false };
+    }
+}
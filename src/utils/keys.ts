@@ -1,59 +1,424 @@
 /**
- * Key normalization utilities
+ * Key normalization, export and import utilities
  */
 
-import type { PublicKeyInput } from "../types/index.ts";
+import { getPublicKey } from "../crypto/ed25519.ts";
+import type {
+    Ed25519PrivateJWK,
+    Ed25519PublicJWK,
+    KeyFormat,
+    PrivateKeyInput,
+    PublicKeyInput,
+} from "../types/index.ts";
+import { parseSpki, type SubjectPublicKeyInfo } from "./asn1.ts";
+import {
+    decode as base64urlDecode,
+    encode as base64urlEncode,
+} from "./base64url.ts";
 
 /** Expected length of Ed25519 public key in bytes */
 export const ED25519_PUBLIC_KEY_LENGTH = 32;
 
+/** Expected length of Ed25519 private key (seed) in bytes */
+export const ED25519_PRIVATE_KEY_LENGTH = 32;
+
 /**
  * Normalize public key input to Uint8Array
  * Accepts:
+ * - Uint8Array (32 raw bytes, or a DER-encoded SPKI structure)
+ * - Hex string (64 characters)
+ * - Base64 or base64url string (raw key or DER-encoded SPKI structure)
+ * - PEM string ("-----BEGIN PUBLIC KEY-----")
+ * - JWK object or JSON string (kty "OKP", crv "Ed25519")
+ */
+export function normalizePublicKey(input: PublicKeyInput): Uint8Array {
+    if (input instanceof Uint8Array) {
+        if (input.length === ED25519_PUBLIC_KEY_LENGTH) {
+            return input;
+        }
+        if (input[0] === DER_SEQUENCE) {
+            return spkiToPublicKey(input);
+        }
+        throw new Error(
+            `Invalid public key length: expected ${ED25519_PUBLIC_KEY_LENGTH} bytes, got ${input.length}`,
+        );
+    }
+
+    if (typeof input === "string") {
+        const text = input.trim();
+        if (text.startsWith("-----BEGIN")) {
+            return pemToPublicKey(text);
+        }
+        if (text.startsWith("{")) {
+            return jwkToPublicKey(parseJwk(text));
+        }
+
+        // Try hex first (64 hex chars = 32 bytes)
+        if (/^[0-9a-fA-F]{64}$/.test(text)) {
+            return hexToBytes(text);
+        }
+
+        // Try base64/base64url, either the raw key or a DER structure
+        let bytes: Uint8Array;
+        try {
+            bytes = base64ToBytes(text);
+        } catch {
+            bytes = new Uint8Array();
+        }
+        if (bytes.length === ED25519_PUBLIC_KEY_LENGTH) {
+            return bytes;
+        }
+        if (bytes[0] === DER_SEQUENCE) {
+            return spkiToPublicKey(bytes);
+        }
+        throw new Error(
+            "Invalid public key format: expected hex string (64 chars), base64, PEM, JWK, or Uint8Array (32 bytes)",
+        );
+    }
+
+    if (typeof input === "object" && input !== null) {
+        return jwkToPublicKey(input);
+    }
+
+    throw new Error(
+        "Invalid public key type: expected string, Uint8Array or JWK object",
+    );
+}
+
+/**
+ * Normalize private key input to Uint8Array
+ * Accepts:
  * - Uint8Array (32 bytes)
  * - Hex string (64 characters)
  * - Base64 string
  * - Base64URL string
  */
-export function normalizePublicKey(input: PublicKeyInput): Uint8Array {
+export function normalizePrivateKey(input: PrivateKeyInput): Uint8Array {
     if (input instanceof Uint8Array) {
-        if (input.length !== ED25519_PUBLIC_KEY_LENGTH) {
+        if (input.length !== ED25519_PRIVATE_KEY_LENGTH) {
             throw new Error(
-                `Invalid public key length: expected ${ED25519_PUBLIC_KEY_LENGTH} bytes, got ${input.length}`,
+                `Invalid private key length: expected ${ED25519_PRIVATE_KEY_LENGTH} bytes, got ${input.length}`,
             );
         }
         return input;
     }
 
     if (typeof input === "string") {
-        // Try hex first (64 hex chars = 32 bytes)
         if (/^[0-9a-fA-F]{64}$/.test(input)) {
             return hexToBytes(input);
         }
 
-        // Try base64/base64url
+        let bytes: Uint8Array;
         try {
-            const bytes = base64ToBytes(input);
-            if (bytes.length !== ED25519_PUBLIC_KEY_LENGTH) {
-                throw new Error(
-                    `Invalid public key length: expected ${ED25519_PUBLIC_KEY_LENGTH} bytes, got ${bytes.length}`,
-                );
-            }
-            return bytes;
+            bytes = base64ToBytes(input);
         } catch {
             throw new Error(
-                "Invalid public key format: expected hex string (64 chars), base64, or Uint8Array (32 bytes)",
+                "Invalid private key format: expected hex string (64 chars), base64, or Uint8Array (32 bytes)",
+            );
+        }
+        if (bytes.length !== ED25519_PRIVATE_KEY_LENGTH) {
+            throw new Error(
+                `Invalid private key length: expected ${ED25519_PRIVATE_KEY_LENGTH} bytes, got ${bytes.length}`,
             );
         }
+        return bytes;
+    }
+
+    throw new Error("Invalid private key type: expected string or Uint8Array");
+}
+
+/** DER tag of a SEQUENCE, the outer element of SPKI structures */
+const DER_SEQUENCE = 0x30;
+
+/** Algorithm OID of Ed25519 keys (RFC 8410) */
+const ED25519_OID = "1.3.101.112";
+
+/** Names of key algorithms and curves that may be passed by mistake */
+const KNOWN_OIDS: Record<string, string> = {
+    "1.3.101.110": "X25519",
+    "1.3.101.111": "X448",
+    "1.3.101.113": "Ed448",
+    "1.2.840.113549.1.1.1": "RSA",
+    "1.2.840.10045.2.1": "EC",
+    "1.2.840.10045.3.1.7": "P-256",
+    "1.3.132.0.34": "P-384",
+    "1.3.132.0.35": "P-521",
+    "1.3.132.0.10": "secp256k1",
+};
+
+/** DER prefix of an Ed25519 SubjectPublicKeyInfo (RFC 8410) */
+const SPKI_PREFIX = new Uint8Array([
+    0x30, 0x2a, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x03, 0x21, 0x00,
+]);
+
+/** DER prefix of an Ed25519 PKCS#8 PrivateKeyInfo (RFC 8410) */
+const PKCS8_PREFIX = new Uint8Array([
+    0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70,
+    0x04, 0x22, 0x04, 0x20,
+]);
+
+/**
+ * Export a public key in the given format
+ * PEM output uses the SPKI structure ("PUBLIC KEY")
+ */
+export function exportPublicKey(
+    publicKey: Uint8Array,
+    format: "jwk",
+): Ed25519PublicJWK;
+export function exportPublicKey(
+    publicKey: Uint8Array,
+    format?: Exclude<KeyFormat, "jwk">,
+): string;
+export function exportPublicKey(
+    publicKey: Uint8Array,
+    format: KeyFormat = "hex",
+): string | Ed25519PublicJWK {
+    const key = normalizePublicKey(publicKey);
+    switch (format) {
+        case "hex":
+            return bytesToHex(key);
+        case "base64url":
+            return base64urlEncode(key);
+        case "pem":
+            return toPem(concatBytes(SPKI_PREFIX, key), "PUBLIC KEY");
+        case "jwk":
+            return { kty: "OKP", crv: "Ed25519", x: base64urlEncode(key) };
+    }
+}
+
+/**
+ * Import a public key from the given format
+ */
+export function importPublicKey(
+    input: string | Ed25519PublicJWK,
+    format: KeyFormat,
+): Uint8Array {
+    if (format === "jwk") {
+        return jwkToPublicKey(
+            typeof input === "string" ? parseJwk(input) : input,
+        );
+    }
+    if (typeof input !== "string") {
+        throw new Error(`Invalid public key: expected ${format} string`);
+    }
+    switch (format) {
+        case "hex":
+            return normalizePublicKey(hexToBytes(input.trim()));
+        case "base64url":
+            return normalizePublicKey(base64urlDecode(input.trim()));
+        case "pem":
+            return pemToPublicKey(input);
+    }
+}
+
+/**
+ * Export a private key in the given format
+ * PEM output uses the PKCS#8 structure ("PRIVATE KEY"); JWK output
+ * includes the derived public key, which is why this function is async.
+ */
+export async function exportPrivateKey(
+    privateKey: Uint8Array,
+    format: "jwk",
+): Promise<Ed25519PrivateJWK>;
+export async function exportPrivateKey(
+    privateKey: Uint8Array,
+    format?: Exclude<KeyFormat, "jwk">,
+): Promise<string>;
+export async function exportPrivateKey(
+    privateKey: Uint8Array,
+    format: KeyFormat = "hex",
+): Promise<string | Ed25519PrivateJWK> {
+    const key = normalizePrivateKey(privateKey);
+    switch (format) {
+        case "hex":
+            return bytesToHex(key);
+        case "base64url":
+            return base64urlEncode(key);
+        case "pem":
+            return toPem(concatBytes(PKCS8_PREFIX, key), "PRIVATE KEY");
+        case "jwk":
+            return {
+                kty: "OKP",
+                crv: "Ed25519",
+                x: base64urlEncode(await getPublicKey(key)),
+                d: base64urlEncode(key),
+            };
+    }
+}
+
+/**
+ * Import a private key from the given format
+ */
+export function importPrivateKey(
+    input: string | Ed25519PrivateJWK,
+    format: KeyFormat,
+): Uint8Array {
+    if (format === "jwk") {
+        const jwk = typeof input === "string" ? parseJwk(input) : input;
+        return normalizePrivateKey(base64urlDecode(readJwkField(jwk, "d")));
+    }
+    if (typeof input !== "string") {
+        throw new Error(`Invalid private key: expected ${format} string`);
     }
+    switch (format) {
+        case "hex":
+            return normalizePrivateKey(hexToBytes(input.trim()));
+        case "base64url":
+            return normalizePrivateKey(base64urlDecode(input.trim()));
+        case "pem":
+            return stripPrefix(
+                fromPem(input, "PRIVATE KEY"),
+                PKCS8_PREFIX,
+                "Invalid private key PEM: expected an Ed25519 PKCS#8 key",
+            );
+    }
+}
+
+/**
+ * Extract the raw public key from an Ed25519 JWK
+ */
+function jwkToPublicKey(jwk: object): Uint8Array {
+    return normalizePublicKey(base64urlDecode(readJwkField(jwk, "x")));
+}
 
-    throw new Error("Invalid public key type: expected string or Uint8Array");
+/**
+ * Extract the raw public key from a "PUBLIC KEY" PEM block
+ */
+function pemToPublicKey(pem: string): Uint8Array {
+    const label = pem.match(/-----BEGIN ([A-Z0-9 ]+)-----/)?.[1];
+    if (label !== undefined && label !== "PUBLIC KEY") {
+        throw new Error(
+            label.includes("PRIVATE KEY")
+                ? `Invalid PEM: got a private key ("${label}"), expected a "PUBLIC KEY" block`
+                : `Invalid PEM: unsupported "${label}" block, expected a "PUBLIC KEY" block`,
+        );
+    }
+    return spkiToPublicKey(fromPem(pem, "PUBLIC KEY"));
+}
+
+/**
+ * Extract the raw public key from a DER-encoded Ed25519 SubjectPublicKeyInfo
+ */
+function spkiToPublicKey(der: Uint8Array): Uint8Array {
+    let spki: SubjectPublicKeyInfo;
+    try {
+        spki = parseSpki(der);
+    } catch (error) {
+        throw new Error(
+            `Invalid public key: not a DER-encoded SPKI structure (${(error as Error).message})`,
+        );
+    }
+
+    if (spki.algorithm !== ED25519_OID) {
+        const algorithm = KNOWN_OIDS[spki.algorithm] ?? spki.algorithm;
+        const curve =
+            spki.parameters !== undefined
+                ? ` ${KNOWN_OIDS[spki.parameters] ?? spki.parameters}`
+                : "";
+        throw new Error(
+            `Unsupported public key algorithm: expected Ed25519, got ${algorithm}${curve}`,
+        );
+    }
+    if (spki.publicKey.length !== ED25519_PUBLIC_KEY_LENGTH) {
+        throw new Error(
+            `Invalid public key length: expected ${ED25519_PUBLIC_KEY_LENGTH} bytes, got ${spki.publicKey.length}`,
+        );
+    }
+    return spki.publicKey;
+}
+
+/**
+ * Parse a JWK from its JSON representation
+ */
+function parseJwk(json: string): Record<string, unknown> {
+    try {
+        return JSON.parse(json) as Record<string, unknown>;
+    } catch {
+        throw new Error("Invalid JWK: not valid JSON");
+    }
+}
+
+/**
+ * Check the JWK key type and curve, and return a base64url key field
+ */
+function readJwkField(jwk: object, field: "x" | "d"): string {
+    const { kty, crv } = jwk as Record<string, unknown>;
+    if (kty !== "OKP" || crv !== "Ed25519") {
+        throw new Error(
+            `Invalid JWK: expected kty "OKP" and crv "Ed25519", got kty ${describeJwkField(kty)} and crv ${describeJwkField(crv)}`,
+        );
+    }
+    const value = (jwk as Record<string, unknown>)[field];
+    if (typeof value !== "string") {
+        throw new Error(`Invalid JWK: missing "${field}" parameter`);
+    }
+    return value;
+}
+
+/**
+ * Quote a JWK parameter for error messages
+ */
+function describeJwkField(value: unknown): string {
+    return value === undefined ? "(none)" : JSON.stringify(value);
+}
+
+/**
+ * Wrap DER bytes in a PEM envelope
+ */
+function toPem(der: Uint8Array, label: string): string {
+    const body = bytesToBase64(der).match(/.{1,64}/g) ?? [];
+    return `-----BEGIN ${label}-----\n${body.join("\n")}\n-----END ${label}-----\n`;
+}
+
+/**
+ * Extract DER bytes from a PEM envelope
+ */
+function fromPem(pem: string, label: string): Uint8Array {
+    const match = pem.match(
+        new RegExp(
+            `-----BEGIN ${label}-----([\\s\\S]*?)-----END ${label}-----`,
+        ),
+    );
+    if (!match) {
+        throw new Error(`Invalid PEM: expected "${label}" block`);
+    }
+    return base64ToBytes(match[1]!.replace(/\s+/g, ""));
+}
+
+/**
+ * Return the bytes following an exact DER prefix
+ */
+function stripPrefix(
+    der: Uint8Array,
+    prefix: Uint8Array,
+    message: string,
+): Uint8Array {
+    if (
+        der.length !== prefix.length + 32 ||
+        !prefix.every((byte, i) => der[i] === byte)
+    ) {
+        throw new Error(message);
+    }
+    return der.slice(prefix.length);
+}
+
+/**
+ * Concatenate two byte arrays
+ */
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+    const result = new Uint8Array(a.length + b.length);
+    result.set(a);
+    result.set(b, a.length);
+    return result;
 }
 
 /**
  * Convert hex string to bytes
  */
-function hexToBytes(hex: string): Uint8Array {
+export function hexToBytes(hex: string): Uint8Array {
+    if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+        throw new Error("Invalid hex string");
+    }
     const bytes = new Uint8Array(hex.length / 2);
     for (let i = 0; i < hex.length; i += 2) {
         bytes[i / 2] = parseInt(hex.substring(i, i + 2), 16);
@@ -90,3 +455,14 @@ function base64ToBytes(str: string): Uint8Array {
     }
     return bytes;
 }
+
+/**
+ * Convert bytes to standard (padded) base64 string
+ */
+function bytesToBase64(bytes: Uint8Array): string {
+    let binary = "";
+    for (const byte of bytes) {
+        binary += String.fromCharCode(byte);
+    }
+    return btoa(binary);
+}
@@ -60,6 +60,29 @@ export function formatDuration(seconds: number): string {
     return `${days} day${days !== 1 ? "s" : ""}`;
 }
 
+/** Seconds per duration unit accepted by parseDuration */
+const DURATION_UNITS: Record<string, number> = {
+    s: 1,
+    m: 60,
+    h: 3600,
+    d: 86400,
+    w: 7 * 86400,
+    y: 365 * 86400,
+};
+
+/**
+ * Parse a duration such as "30d", "12h" or "90" (seconds) into seconds
+ */
+export function parseDuration(input: string): number {
+    const match = /^(\d+)\s*([smhdwy]?)$/.exec(input.trim());
+    if (!match) {
+        throw new Error(
+            `Invalid duration: "${input}" (expected e.g. 90s, 15m, 12h, 30d, 1y)`,
+        );
+    }
+    return Number(match[1]) * DURATION_UNITS[match[2] || "s"]!;
+}
+
 /** Threshold for "expiring soon" warning (7 days in seconds) */
 export const EXPIRING_SOON_THRESHOLD = 7 * 24 * 60 * 60;
 
@@ -2,21 +2,45 @@
  * LicenseValidator - Abstract base class for license validation
  */
 
-import { invalidHeader, invalidPayload, malformedToken } from "../errors.ts";
+import {
+    createError,
+    invalidHeader,
+    invalidPayload,
+    malformedToken,
+} from "../errors.ts";
 import { decodeJWT, decodePayload } from "../jwt/decode.ts";
-import { verifySignature } from "../jwt/verify.ts";
+import { verifyWithKeys } from "../jwt/verify.ts";
+import { type KeyRing, resolveKeyRing } from "../keyring/index.ts";
+import {
+    CompositeRevocationProvider,
+    resolveRevocationProvider,
+    revocationUnavailable,
+    StatusListRevocationProvider,
+    withdrawEntitlements,
+} from "../revocation/index.ts";
 import type {
+    ClaimValidator,
     DecodedJWT,
     LicensePayload,
-    RevocationList,
+    RevocationFailurePolicy,
+    RevocationProvider,
+    RevocationStateStore,
+    RevocationUpdateListener,
+    TrustedKey,
     ValidationError,
     ValidationResult,
     ValidationWarning,
     ValidatorConfig,
+    WithdrawnEntitlements,
 } from "../types/index.ts";
-import { normalizePublicKey } from "../utils/keys.ts";
+import { now } from "../utils/time.ts";
 import type { LicenseValidatorBound } from "./bound.ts";
-import { validateClaimMatchers, validateTimingClaims } from "./claims/index.ts";
+import {
+    runClaimValidators,
+    validateClaimMatchers,
+    validateSigningKeyWindow,
+    validateTimingClaims,
+} from "./claims/index.ts";
 import { validateInternalClaims } from "./claims/internal.ts";
 import type { LicenseValidatorUnbound } from "./unbound.ts";
 
@@ -26,31 +50,50 @@ import type { LicenseValidatorUnbound } from "./unbound.ts";
  */
 export abstract class LicenseValidator<T = Record<string, unknown>> {
     protected readonly realm: string;
-    protected readonly publicKey: Uint8Array;
-    protected readonly revocationUrl?: string;
-    protected readonly revocation?: RevocationList;
+    protected readonly keyRing: KeyRing;
+    protected readonly revocationProvider?: RevocationProvider;
+    protected readonly revocationFailurePolicy?: RevocationFailurePolicy;
+    protected readonly statusListCacheTtl?: number;
+    protected readonly revocationRequireSignature?: boolean;
+    protected readonly revocationStateStore?: RevocationStateStore;
+    private readonly revocationCheck: RevocationProvider;
     protected readonly requiredFlags?: string[];
     protected readonly requiredKind?: string;
     protected readonly requiredFeatures?: string[];
     protected readonly timing?: ValidatorConfig["timing"];
     protected readonly allowNoExpiration?: boolean;
+    protected readonly claimValidators?: ClaimValidator<T>[];
 
     protected constructor(
         realm: string,
-        publicKey: Uint8Array,
-        config: ValidatorConfig,
+        keyRing: KeyRing,
+        config: ValidatorConfig<T>,
     ) {
         this.realm = realm;
-        this.publicKey = publicKey;
-        this.revocationUrl =
-            "revocationUrl" in config ? config.revocationUrl : undefined;
-        this.revocation =
-            "revocation" in config ? config.revocation : undefined;
+        this.keyRing = keyRing;
+        this.revocationProvider = resolveRevocationProvider(config);
+        this.revocationFailurePolicy = config.revocationFailurePolicy;
+        this.statusListCacheTtl = config.statusListCacheTtl;
+        this.revocationRequireSignature = config.revocationRequireSignature;
+        this.revocationStateStore = config.revocationStateStore;
+        // Status lists named by tokens are checked after the configured source
+        const statusListProvider = new StatusListRevocationProvider({
+            ttl: config.statusListCacheTtl,
+            failurePolicy: config.revocationFailurePolicy,
+            requireSignature: config.revocationRequireSignature,
+            stateStore: config.revocationStateStore,
+        });
+        this.revocationCheck = new CompositeRevocationProvider(
+            this.revocationProvider
+                ? [this.revocationProvider, statusListProvider]
+                : [statusListProvider],
+        );
         this.requiredFlags = config.requiredFlags;
         this.requiredKind = config.requiredKind;
         this.requiredFeatures = config.requiredFeatures;
         this.timing = config.timing;
         this.allowNoExpiration = config.allowNoExpiration;
+        this.claimValidators = config.claimValidators;
     }
 
     /**
@@ -74,7 +117,8 @@ export abstract class LicenseValidator<T = Record<string, unknown>> {
                 errorMessage.includes("algorithm") ||
                 errorMessage.includes("type") ||
                 errorMessage.includes("version") ||
-                errorMessage.includes("kwv")
+                errorMessage.includes("kwv") ||
+                errorMessage.includes("kid")
             ) {
                 error = invalidHeader(errorMessage);
             } else if (
@@ -98,12 +142,37 @@ export abstract class LicenseValidator<T = Record<string, unknown>> {
 
         const decoded = decodeResult.data;
 
-        // Verify signature
-        const verifyResult = await verifySignature(
+        // Reload keys from an expired key manifest before trusting them
+        if (!(await this.keyRing.checkExpiry(this.timing?.currentTime))) {
+            return {
+                valid: false,
+                error: createError(
+                    "KEY_MANIFEST_EXPIRED",
+                    `Key manifest expired at ${this.keyRing.expiresAt}`,
+                    { expiredAt: this.keyRing.expiresAt },
+                ),
+                unverifiedPayload: decoded.payload as LicensePayload,
+            };
+        }
+
+        // Verify signature against the trusted keys
+        let verifyResult = await verifyWithKeys(
             decoded as DecodedJWT,
-            this.publicKey,
+            this.keyRing.keys,
         );
 
+        // Reload remote keys when the token names a key we do not know yet
+        if (
+            !verifyResult.success &&
+            verifyResult.error.code === "UNKNOWN_KEY_ID" &&
+            (await this.keyRing.refresh())
+        ) {
+            verifyResult = await verifyWithKeys(
+                decoded as DecodedJWT,
+                this.keyRing.keys,
+            );
+        }
+
         if (!verifyResult.success) {
             return {
                 valid: false,
@@ -112,21 +181,37 @@ export abstract class LicenseValidator<T = Record<string, unknown>> {
             };
         }
 
-        // Check revocation
+        // Check revocation of the token and its signing key
         const revocationResult = await this.checkRevocation(
             decoded.payload as LicensePayload,
+            verifyResult.key,
         );
-        if (revocationResult) {
+        if (revocationResult.error) {
+            const warnings = [
+                ...this.keyRing.warnings,
+                ...revocationResult.warnings,
+            ];
             return {
                 valid: false,
-                error: revocationResult,
+                error: revocationResult.error,
+                warnings: warnings.length > 0 ? warnings : undefined,
                 unverifiedPayload: decoded.payload as LicensePayload,
             };
         }
 
+        // Remove flags and features withdrawn by partial revocations
+        const { license, warning: withdrawnWarning } = withdrawEntitlements(
+            decoded.payload,
+            revocationResult.withdrawn,
+        );
+
         // Collect all errors and warnings
         const allErrors: ValidationError[] = [];
-        const allWarnings: ValidationWarning[] = [];
+        const allWarnings: ValidationWarning[] = [
+            ...this.keyRing.warnings,
+            ...revocationResult.warnings,
+            ...(withdrawnWarning ? [withdrawnWarning] : []),
+        ];
 
         // Validate internal claims (iss and aud)
         const internalResult = validateInternalClaims(
@@ -144,24 +229,46 @@ export abstract class LicenseValidator<T = Record<string, unknown>> {
         allErrors.push(...timingResult.errors);
         allWarnings.push(...timingResult.warnings);
 
-        // Validate claim matchers (flags, kind, features)
-        const claimResult = validateClaimMatchers(
+        // Validate the signing key's validity window
+        const keyWindowResult = validateSigningKeyWindow(
             decoded.payload as LicensePayload,
-            {
-                requiredFlags: this.requiredFlags,
-                requiredKind: this.requiredKind,
-                requiredFeatures: this.requiredFeatures,
-            },
+            verifyResult.key,
+            this.timing,
         );
+        allErrors.push(...keyWindowResult.errors);
+        allWarnings.push(...keyWindowResult.warnings);
+
+        // Validate claim matchers (flags, kind, features)
+        const claimResult = validateClaimMatchers(license as LicensePayload, {
+            requiredFlags: this.requiredFlags,
+            requiredKind: this.requiredKind,
+            requiredFeatures: this.requiredFeatures,
+        });
         allErrors.push(...claimResult.errors);
         allWarnings.push(...claimResult.warnings);
 
+        // Run custom claim validators
+        if (this.claimValidators && this.claimValidators.length > 0) {
+            const customResult = await runClaimValidators(
+                license,
+                this.claimValidators,
+                {
+                    realm: this.realm,
+                    currentTime: this.timing?.currentTime ?? now(),
+                    keyId: verifyResult.key.kid,
+                },
+            );
+            allErrors.push(...customResult.errors);
+            allWarnings.push(...customResult.warnings);
+        }
+
         // Return failure if any errors
         if (allErrors.length > 0) {
             return {
                 valid: false,
                 error: allErrors[0]!,
                 errors: allErrors.length > 1 ? allErrors : undefined,
+                warnings: allWarnings.length > 0 ? allWarnings : undefined,
                 unverifiedPayload: decoded.payload as LicensePayload,
             };
         }
@@ -169,90 +276,108 @@ export abstract class LicenseValidator<T = Record<string, unknown>> {
         // Success
         return {
             valid: true,
-            license: decoded.payload,
+            license,
             warnings: allWarnings.length > 0 ? allWarnings : undefined,
+            keyId: verifyResult.key.kid,
         };
     }
 
     /**
-     * Check if a token is revoked
+     * Check if a token or the key that signed it is revoked, and which of
+     * its flags and features are withdrawn.
+     * A provider that throws is handled by the revocation failure policy.
      */
-    protected async checkRevocation(payload: LicensePayload): Promise<{
-        code: "TOKEN_REVOKED";
-        message: string;
-        details?: Record<string, unknown>;
-    } | null> {
-        // Get revocation list from static config or URL
-        let revocationList: RevocationList | null = null;
-
-        if (this.revocationUrl) {
-            revocationList = await this.fetchRevocationList();
-        } else if (this.revocation) {
-            revocationList = this.revocation;
-        }
-
-        if (!revocationList) {
-            return null;
-        }
-
-        // Check if jti is revoked
-        if (payload.jti && revocationList.jti?.includes(payload.jti)) {
+    protected async checkRevocation(
+        payload: LicensePayload,
+        key: TrustedKey,
+    ): Promise<{
+        error: ValidationError | null;
+        warnings: ValidationWarning[];
+        withdrawn?: WithdrawnEntitlements;
+    }> {
+        try {
+            const status = await this.revocationCheck.isRevoked(payload, {
+                realm: this.realm,
+                keys: this.keyRing.keys,
+                key,
+                currentTime: this.timing?.currentTime,
+            });
             return {
-                code: "TOKEN_REVOKED",
-                message: `Token has been revoked (jti: ${payload.jti})`,
-                details: { jti: payload.jti, reason: "jti_revoked" },
+                error: status.revoked ? status.error! : null,
+                warnings: status.warnings ?? [],
+                withdrawn: status.withdrawn,
             };
-        }
-
-        // Check if sub is revoked
-        if (payload.sub && revocationList.sub?.includes(payload.sub)) {
+        } catch (error) {
+            const { error: unavailable, warning } = revocationUnavailable(
+                "revocation provider",
+                (error as Error).message,
+                this.revocationFailurePolicy,
+            );
             return {
-                code: "TOKEN_REVOKED",
-                message: `Subject has been revoked (sub: ${payload.sub})`,
-                details: { sub: payload.sub, reason: "sub_revoked" },
+                error: unavailable ?? null,
+                warnings: warning ? [warning] : [],
             };
         }
-
-        return null;
     }
 
     /**
-     * Fetch revocation list from URL
+     * Reload the revocation provider's data, e.g. refetch the list from
+     * revocationUrl bypassing the cache.
+     * Returns false if the provider cannot be refreshed or the refresh failed.
      */
-    protected async fetchRevocationList(): Promise<RevocationList | null> {
-        if (!this.revocationUrl) {
-            return null;
+    public async refreshRevocationList(): Promise<boolean> {
+        if (!this.revocationProvider?.refresh) {
+            return false;
         }
+        return this.revocationProvider.refresh({
+            realm: this.realm,
+            keys: this.keyRing.keys,
+        });
+    }
 
-        try {
-            const response = await fetch(this.revocationUrl);
-            if (!response.ok) {
-                return null;
-            }
-            return (await response.json()) as RevocationList;
-        } catch {
-            return null;
+    /**
+     * Listen for revocation updates pushed to the revocation provider, e.g.
+     * over revocationEventsUrl. The listener is called after each update is
+     * applied; bound validators can then be re-checked with revalidate().
+     * Returns a function that stops listening. The connection is closed
+     * once no listeners remain.
+     * @throws Error if the revocation provider does not support subscriptions
+     */
+    public subscribeToRevocations(
+        listener: RevocationUpdateListener,
+    ): () => Promise<void> {
+        if (!this.revocationProvider?.subscribe) {
+            throw new Error(
+                "The revocation provider does not support subscriptions",
+            );
         }
+        return this.revocationProvider.subscribe(
+            { realm: this.realm, keys: this.keyRing.keys },
+            listener,
+        );
     }
 
     /**
      * Build a config object from the current validator's settings.
      * Used when creating bound validators from unbound ones.
      */
-    protected buildConfig(): ValidatorConfig {
+    protected buildConfig(): ValidatorConfig<T> {
         const base = {
             requiredFlags: this.requiredFlags,
             requiredKind: this.requiredKind,
             requiredFeatures: this.requiredFeatures,
             timing: this.timing,
             allowNoExpiration: this.allowNoExpiration,
-            publicKey: this.publicKey,
+            claimValidators: this.claimValidators,
+            revocationFailurePolicy: this.revocationFailurePolicy,
+            statusListCacheTtl: this.statusListCacheTtl,
+            revocationRequireSignature: this.revocationRequireSignature,
+            revocationStateStore: this.revocationStateStore,
+            publicKeys: [...this.keyRing.keys],
         };
 
-        if (this.revocationUrl) {
-            return { ...base, revocationUrl: this.revocationUrl };
-        } else if (this.revocation) {
-            return { ...base, revocation: this.revocation };
+        if (this.revocationProvider) {
+            return { ...base, revocationProvider: this.revocationProvider };
         }
         return base;
     }
@@ -263,14 +388,14 @@ export abstract class LicenseValidator<T = Record<string, unknown>> {
      */
     public static async create<T = Record<string, unknown>>(
         realm: string,
-        config: ValidatorConfig,
+        config: ValidatorConfig<T>,
     ): Promise<LicenseValidatorUnbound<T>> {
         // Dynamic import to avoid circular dependency
         const { LicenseValidatorUnbound: Unbound } = await import(
             "./unbound.ts"
         );
-        const publicKey = await resolvePublicKey(config);
-        return new Unbound<T>(realm, publicKey, config);
+        const keyRing = await resolveKeyRing(config);
+        return new Unbound<T>(realm, keyRing, config);
     }
 
     /**
@@ -279,32 +404,10 @@ export abstract class LicenseValidator<T = Record<string, unknown>> {
      */
     public static async createWithToken<T = Record<string, unknown>>(
         realm: string,
-        config: ValidatorConfig,
+        config: ValidatorConfig<T>,
         token: string,
     ): Promise<LicenseValidatorBound<T>> {
         const unbound = await LicenseValidator.create<T>(realm, config);
         return unbound.bind(token);
     }
 }
-
-/**
- * Resolve public key from config (either direct key or URL)
- */
-export async function resolvePublicKey(
-    config: ValidatorConfig,
-): Promise<Uint8Array> {
-    if ("publicKey" in config && config.publicKey) {
-        return normalizePublicKey(config.publicKey);
-    } else if ("publicKeyUrl" in config && config.publicKeyUrl) {
-        const response = await fetch(config.publicKeyUrl);
-        if (!response.ok) {
-            throw new Error(
-                `Failed to fetch public key from ${config.publicKeyUrl}: ${response.status} ${response.statusText}`,
-            );
-        }
-        const keyText = (await response.text()).trim();
-        return normalizePublicKey(keyText);
-    } else {
-        throw new Error("Either publicKey or publicKeyUrl must be provided");
-    }
-}
@@ -2,6 +2,7 @@
  * LicenseValidatorBound - Token-bound validation with sync methods
  */
 
+import type { KeyRing } from "../keyring/index.ts";
 import type {
     ExpirationInfo,
     LicensePayload,
@@ -27,12 +28,12 @@ export class LicenseValidatorBound<
     /** @internal */
     public constructor(
         realm: string,
-        publicKey: Uint8Array,
-        config: ValidatorConfig,
+        keyRing: KeyRing,
+        config: ValidatorConfig<T>,
         token: string,
         result: ValidationResult<T>,
     ) {
-        super(realm, publicKey, config);
+        super(realm, keyRing, config);
         this.token = token;
         this.result = result;
     }
@@ -205,7 +206,7 @@ export class LicenseValidatorBound<
         const result = await this.performValidation(this.token);
         return new LicenseValidatorBound<T>(
             this.realm,
-            this.publicKey,
+            this.keyRing,
             this.buildConfig(),
             this.token,
             result,
@@ -219,7 +220,7 @@ export class LicenseValidatorBound<
     public unbind(): LicenseValidatorUnbound<T> {
         return new LicenseValidatorUnbound<T>(
             this.realm,
-            this.publicKey,
+            this.keyRing,
             this.buildConfig(),
         );
     }
@@ -0,0 +1,69 @@
+/**
+ * Custom claim validator execution
+ */
+
+import { createError } from "../../errors.ts";
+import type {
+    ClaimValidator,
+    ClaimValidatorContext,
+    LicensePayload,
+    ValidationError,
+    ValidationWarning,
+} from "../../types/index.ts";
+import type { ClaimValidationResult } from "./timing.ts";
+
+/** A namespaced code: "namespace:CODE" with both parts non-empty */
+const NAMESPACED_CODE = /^[^:]+:.+$/;
+
+/**
+ * Run custom claim validators in order and collect their issues.
+ * A validator that throws or rejects, or returns an issue whose code is
+ * not namespaced, is reported as CLAIM_VALIDATOR_FAILED.
+ */
+export async function runClaimValidators<T>(
+    payload: LicensePayload<T>,
+    validators: readonly ClaimValidator<T>[],
+    context: ClaimValidatorContext,
+): Promise<ClaimValidationResult> {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+
+    for (const [index, validator] of validators.entries()) {
+        try {
+            const result = await validator(payload, context);
+            const issues = [
+                ...(result?.errors ?? []),
+                ...(result?.warnings ?? []),
+            ];
+            // Built-in codes must not be spoofed by custom validators
+            const invalid = issues.findIndex(
+                (issue) =>
+                    typeof issue?.code !== "string" ||
+                    !NAMESPACED_CODE.test(issue.code),
+            );
+            if (invalid !== -1) {
+                const code = issues[invalid]?.code;
+                errors.push(
+                    createError(
+                        "CLAIM_VALIDATOR_FAILED",
+                        `Claim validator returned code ${JSON.stringify(code)}, expected "namespace:CODE"`,
+                        { index, code },
+                    ),
+                );
+                continue;
+            }
+            errors.push(...(result?.errors ?? []));
+            warnings.push(...(result?.warnings ?? []));
+        } catch (error) {
+            errors.push(
+                createError(
+                    "CLAIM_VALIDATOR_FAILED",
+                    `Claim validator failed: ${(error as Error).message}`,
+                    { index },
+                ),
+            );
+        }
+    }
+
+    return { errors, warnings };
+}
@@ -2,9 +2,10 @@
  * Claim validation barrel export
  */
 
+export { runClaimValidators } from "./custom.ts";
 export type { InternalClaimValidationResult } from "./internal.ts";
 export { validateInternalClaims } from "./internal.ts";
 export type { ClaimMatcherOptions } from "./matchers.ts";
 export { validateClaimMatchers } from "./matchers.ts";
 export type { ClaimValidationResult } from "./timing.ts";
-export { validateTimingClaims } from "./timing.ts";
+export { validateSigningKeyWindow, validateTimingClaims } from "./timing.ts";
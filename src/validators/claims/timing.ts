@@ -5,6 +5,7 @@
 import type {
     LicensePayload,
     TimingOptions,
+    TrustedKey,
     ValidationError,
     ValidationWarning,
 } from "../../types/index.ts";
@@ -104,3 +105,66 @@ export function validateTimingClaims(
 
     return { errors, warnings };
 }
+
+/**
+ * Validate that the token was issued (iat) within the signing key's
+ * validity window, and warn when the key is about to retire
+ */
+export function validateSigningKeyWindow(
+    payload: LicensePayload,
+    key: TrustedKey,
+    options: TimingOptions = {},
+): ClaimValidationResult {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+
+    if (key.notBefore === undefined && key.notAfter === undefined) {
+        return { errors, warnings };
+    }
+
+    const clockSkew = options.clockSkew ?? DEFAULT_CLOCK_SKEW;
+    const currentTime = options.currentTime ?? now();
+    const window = {
+        kid: key.kid,
+        notBefore: key.notBefore,
+        notAfter: key.notAfter,
+    };
+
+    if (payload.iat === undefined) {
+        errors.push({
+            code: "KEY_NOT_ACTIVE",
+            message:
+                "Token has no issued-at time (iat) to check against the signing key's validity window",
+            details: window,
+        });
+    } else if (
+        (key.notBefore !== undefined &&
+            isPast(payload.iat, key.notBefore, clockSkew)) ||
+        (key.notAfter !== undefined &&
+            isFuture(payload.iat, key.notAfter, clockSkew))
+    ) {
+        errors.push({
+            code: "KEY_NOT_ACTIVE",
+            message: `Token was issued outside the signing key's validity window${key.kid ? ` (kid: ${key.kid})` : ""}`,
+            details: {
+                ...window,
+                iat: payload.iat,
+                issuedAt: new Date(payload.iat * 1000).toISOString(),
+            },
+        });
+    }
+
+    if (
+        key.notAfter !== undefined &&
+        isExpiringSoon(key.notAfter, currentTime)
+    ) {
+        const remaining = key.notAfter - currentTime;
+        warnings.push({
+            code: "KEY_RETIRING_SOON",
+            message: `Signing key retires in ${formatDuration(remaining)}`,
+            details: { ...window, secondsRemaining: remaining },
+        });
+    }
+
+    return { errors, warnings };
+}
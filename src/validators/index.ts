@@ -2,7 +2,8 @@
  * Validators barrel export
  */
 
-export { LicenseValidator, resolvePublicKey } from "./base.ts";
+export { resolveKeyRing, resolvePublicKey } from "../keyring/index.ts";
+export { LicenseValidator } from "./base.ts";
 export { LicenseValidatorBound } from "./bound.ts";
 export type {
     ClaimMatcherOptions,
@@ -14,6 +15,7 @@ export type {
 export {
     validateClaimMatchers,
     validateInternalClaims,
+    validateSigningKeyWindow,
     validateTimingClaims,
 } from "./claims/index.ts";
 export { LicenseValidatorUnbound } from "./unbound.ts";
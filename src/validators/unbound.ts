@@ -3,6 +3,7 @@
  */
 
 import { decodePayload } from "../jwt/decode.ts";
+import type { KeyRing } from "../keyring/index.ts";
 import type {
     DomainCheckResult,
     ExpirationInfo,
@@ -26,10 +27,10 @@ export class LicenseValidatorUnbound<
     /** @internal */
     public constructor(
         realm: string,
-        publicKey: Uint8Array,
-        config: ValidatorConfig,
+        keyRing: KeyRing,
+        config: ValidatorConfig<T>,
     ) {
-        super(realm, publicKey, config);
+        super(realm, keyRing, config);
     }
 
     /**
@@ -235,7 +236,7 @@ export class LicenseValidatorUnbound<
         const result = await this.validate(token);
         return new LicenseValidatorBound<T>(
             this.realm,
-            this.publicKey,
+            this.keyRing,
             this.buildConfig(),
             token,
             result,
@@ -2,8 +2,8 @@
  * Tests for claim matchers (flags, kind, features)
  */
 
-import { describe, expect, test } from "vitest";
-import { LicenseValidator } from "../src/index.ts";
+import { describe, expect, test, vi } from "vitest";
+import { type ClaimValidator, LicenseValidator } from "../src/index.ts";
 import {
     createToken,
     futureTimestamp,
@@ -46,6 +46,9 @@ describe("claim matchers", () => {
             if (!result.valid) {
                 expect(result.error.code).toBe("MISSING_REQUIRED_FLAG");
                 expect(result.error.details?.requiredFlag).toBe("api");
+                expect(result.warnings?.map((warning) => warning.code)).toEqual(
+                    ["EXPIRING_SOON"],
+                );
             }
         });
 
@@ -185,3 +188,149 @@ describe("claim matchers", () => {
         });
     });
 });
+
+describe("custom claim validators", () => {
+    const seatLimit: ClaimValidator<{ seats?: number }> = (payload) =>
+        (payload.seats ?? 0) > 10
+            ? {
+                  errors: [
+                      {
+                          code: "acme:SEAT_LIMIT",
+                          message: "Too many seats",
+                          details: { seats: payload.seats },
+                      },
+                  ],
+              }
+            : undefined;
+
+    test("merges custom errors with built-in errors", async () => {
+        const token = await createToken({
+            sub: "test",
+            seats: 25,
+            exp: futureTimestamp(3600),
+        });
+
+        const validator = await LicenseValidator.create(TEST_REALM, {
+            publicKey: publicKeyHex,
+            requiredFlags: ["export"],
+            claimValidators: [seatLimit],
+        });
+        const result = await validator.validate(token);
+
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+            expect(result.error.code).toBe("MISSING_REQUIRED_FLAG");
+            expect(result.errors?.map((error) => error.code)).toEqual([
+                "MISSING_REQUIRED_FLAG",
+                "acme:SEAT_LIMIT",
+            ]);
+        }
+    });
+
+    test("passes the payload and context to async validators", async () => {
+        const token = await createToken({
+            sub: "test",
+            seats: 5,
+            exp: futureTimestamp(30 * 86400),
+        });
+        const validator = vi.fn(async () => ({
+            warnings: [{ code: "acme:TRIAL" as const, message: "Trial" }],
+        }));
+
+        const result = await (
+            await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+                timing: { currentTime: 1700000000 },
+                claimValidators: [seatLimit, validator],
+            })
+        ).validate(token);
+
+        expect(result.valid).toBe(true);
+        if (result.valid) {
+            expect(result.warnings).toEqual([
+                { code: "acme:TRIAL", message: "Trial" },
+            ]);
+        }
+        expect(validator).toHaveBeenCalledWith(
+            expect.objectContaining({ sub: "test", seats: 5 }),
+            { realm: TEST_REALM, currentTime: 1700000000, keyId: undefined },
+        );
+    });
+
+    test("reports validators that throw", async () => {
+        const token = await createToken({
+            sub: "test",
+            exp: futureTimestamp(3600),
+        });
+
+        const validator = await LicenseValidator.create(TEST_REALM, {
+            publicKey: publicKeyHex,
+            claimValidators: [
+                seatLimit,
+                () => {
+                    throw new Error("database unavailable");
+                },
+            ],
+        });
+        const result = await validator.validate(token);
+
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+            expect(result.error).toEqual({
+                code: "CLAIM_VALIDATOR_FAILED",
+                message: "Claim validator failed: database unavailable",
+                details: { index: 1 },
+            });
+        }
+    });
+
+    test("rejects codes without a namespace", async () => {
+        const token = await createToken({
+            sub: "test",
+            exp: futureTimestamp(30 * 86400),
+        });
+
+        for (const code of ["TOKEN_REVOKED", ":SEAT_LIMIT", "acme:"]) {
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+                claimValidators: [
+                    () => ({
+                        warnings: [{ code, message: "Spoofed" }],
+                    }),
+                ] as ClaimValidator[],
+            });
+            const result = await validator.validate(token);
+
+            expect(result.valid).toBe(false);
+            if (!result.valid) {
+                expect(result.error).toEqual({
+                    code: "CLAIM_VALIDATOR_FAILED",
+                    message: `Claim validator returned code "${code}", expected "namespace:CODE"`,
+                    details: { index: 0, code },
+                });
+            }
+        }
+    });
+
+    test("keeps validators in bound validators", async () => {
+        const config = {
+            publicKey: publicKeyHex,
+            claimValidators: [seatLimit],
+        };
+        const token = await createToken({
+            sub: "test",
+            seats: 25,
+            exp: futureTimestamp(3600),
+        });
+
+        const bound = await LicenseValidator.createWithToken(
+            TEST_REALM,
+            config,
+            token,
+        );
+        expect(bound.error?.code).toBe("acme:SEAT_LIMIT");
+
+        const result = await bound.unbind().validate(token);
+        expect(result.valid).toBe(false);
+    });
+});
@@ -39,6 +39,8 @@ export interface CreateTokenOptions {
     iss?: string;
     /** Set kwv to a different value (only via header override) */
     kwv?: number;
+    /** Set the kid header */
+    kid?: string;
 }
 
 /**
@@ -54,6 +56,7 @@ export async function createToken(
         alg: "EdDSA",
         typ: KEYWRIT_TYPE,
         kwv: options?.kwv ?? KEYWRIT_VERSION,
+        ...(options?.kid !== undefined && { kid: options.kid }),
     };
 
     // Build payload with KeyWrit defaults
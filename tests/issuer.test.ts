@@ -0,0 +1,101 @@
+/**
+ * Tests for license issuance
+ */
+
+import { describe, expect, test } from "vitest";
+import {
+    decode,
+    KEYWRIT_ISSUER,
+    KEYWRIT_TYPE,
+    KEYWRIT_VERSION,
+    LicenseIssuer,
+    LicenseValidator,
+    signLicense,
+} from "../src/index.ts";
+import { privateKey, publicKeyHex, TEST_REALM } from "./helpers.ts";
+
+describe("license issuance", () => {
+    test("issued token round-trips through the validator", async () => {
+        const token = await signLicense(
+            TEST_REALM,
+            { sub: "user@example.com", kind: "pro", flags: ["export"] },
+            { privateKey },
+            { expiresIn: 3600 },
+        );
+
+        const validator = await LicenseValidator.create(TEST_REALM, {
+            publicKey: publicKeyHex,
+        });
+        const result = await validator.validate(token);
+
+        expect(result.valid).toBe(true);
+        if (result.valid) {
+            expect(result.license.sub).toBe("user@example.com");
+            expect(result.license.kind).toBe("pro");
+            expect(result.license.flags).toEqual(["export"]);
+        }
+    });
+
+    test("fills in KeyWrit header and internal claims", async () => {
+        const issuer = LicenseIssuer.create(TEST_REALM, { privateKey });
+        const token = await issuer.issue(
+            { sub: "user@example.com" },
+            { currentTime: 1700000000, expiresIn: 60 },
+        );
+
+        const decoded = decode(token);
+        expect(decoded?.header).toEqual({
+            alg: "EdDSA",
+            typ: KEYWRIT_TYPE,
+            kwv: KEYWRIT_VERSION,
+        });
+        expect(decoded?.payload.iss).toBe(KEYWRIT_ISSUER);
+        expect(decoded?.payload.aud).toBe(TEST_REALM);
+        expect(decoded?.payload.iat).toBe(1700000000);
+        expect(decoded?.payload.exp).toBe(1700000060);
+        expect(typeof decoded?.payload.jti).toBe("string");
+    });
+
+    test("generates a unique jti per token", async () => {
+        const issuer = LicenseIssuer.create(TEST_REALM, { privateKey });
+        const first = decode(await issuer.issue({ sub: "a" }));
+        const second = decode(await issuer.issue({ sub: "a" }));
+
+        expect(first?.payload.jti).not.toBe(second?.payload.jti);
+    });
+
+    test("keeps explicit jti, iat and exp", async () => {
+        const issuer = LicenseIssuer.create(TEST_REALM, { privateKey });
+        const token = await issuer.issue(
+            { jti: "license-1", iat: 1000, exp: 2000 },
+            { expiresIn: 60 },
+        );
+
+        const decoded = decode(token);
+        expect(decoded?.payload.jti).toBe("license-1");
+        expect(decoded?.payload.iat).toBe(1000);
+        expect(decoded?.payload.exp).toBe(2000);
+    });
+
+    test("adds the realm to an explicit audience", async () => {
+        const issuer = LicenseIssuer.create(TEST_REALM, { privateKey });
+        const token = await issuer.issue({ aud: "other-app" });
+
+        expect(decode(token)?.payload.aud).toEqual([TEST_REALM, "other-app"]);
+    });
+
+    test("preserves custom claims", async () => {
+        const issuer = LicenseIssuer.create<{ seats: number }>(TEST_REALM, {
+            privateKey,
+        });
+        const token = await issuer.issue({ seats: 5 });
+
+        expect(decode<{ seats: number }>(token)?.payload.seats).toBe(5);
+    });
+
+    test("throws on invalid private key", () => {
+        expect(() =>
+            LicenseIssuer.create(TEST_REALM, { privateKey: "abc" }),
+        ).toThrow("Invalid private key");
+    });
+});
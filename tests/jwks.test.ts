@@ -0,0 +1,219 @@
+/**
+ * Tests for JWKS key sources
+ */
+
+import { beforeAll, describe, expect, test, vi } from "vitest";
+import {
+    exportPublicKey,
+    generateKeyPair,
+    type KeyPair,
+    LicenseValidator,
+} from "../src/index.ts";
+import { parseJwks } from "../src/keyring/index.ts";
+import { createToken, futureTimestamp, TEST_REALM } from "./helpers.ts";
+
+const JWKS_URL = "https://example.com/.well-known/jwks.json";
+
+let first: KeyPair;
+let second: KeyPair;
+
+beforeAll(async () => {
+    first = await generateKeyPair();
+    second = await generateKeyPair();
+});
+
+/** Build a JWK entry for a key pair */
+function jwk(keys: KeyPair, extra: Record<string, unknown> = {}) {
+    return { ...exportPublicKey(keys.publicKey, "jwk"), ...extra };
+}
+
+/** Mock fetch to serve the given JWKS documents in order */
+function mockJwks(...documents: unknown[]) {
+    let index = 0;
+    const mock = vi.fn(async () => {
+        const document = documents[Math.min(index++, documents.length - 1)];
+        return new Response(JSON.stringify(document), { status: 200 });
+    });
+    globalThis.fetch = mock as unknown as typeof fetch;
+    return mock;
+}
+
+describe("JWKS", () => {
+    test("validates tokens signed by a key from the JWKS", async () => {
+        const originalFetch = globalThis.fetch;
+        mockJwks({
+            keys: [jwk(first, { kid: "k1" }), jwk(second, { kid: "k2" })],
+        });
+
+        try {
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                jwksUrl: JWKS_URL,
+            });
+            const token = await createToken(
+                { sub: "user", exp: futureTimestamp(3600) },
+                { privateKey: second.privateKey, kid: "k2" },
+            );
+
+            const result = await validator.validate(token);
+            expect(result.valid).toBe(true);
+            if (result.valid) {
+                expect(result.keyId).toBe("k2");
+            }
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+
+    test("refreshes the key set when an unknown kid shows up", async () => {
+        const originalFetch = globalThis.fetch;
+        const mock = mockJwks(
+            { keys: [jwk(first, { kid: "k1" })] },
+            { keys: [jwk(first, { kid: "k1" }), jwk(second, { kid: "k2" })] },
+        );
+
+        try {
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                jwksUrl: JWKS_URL,
+                jwksRefreshCooldown: 0,
+            });
+            const token = await createToken(
+                { sub: "user", exp: futureTimestamp(3600) },
+                { privateKey: second.privateKey, kid: "k2" },
+            );
+
+            const result = await validator.validate(token);
+            expect(result.valid).toBe(true);
+            expect(mock).toHaveBeenCalledTimes(2);
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+
+    test("does not refresh within the cooldown period", async () => {
+        const originalFetch = globalThis.fetch;
+        const mock = mockJwks({ keys: [jwk(first, { kid: "k1" })] });
+
+        try {
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                jwksUrl: JWKS_URL,
+            });
+            const token = await createToken(
+                { sub: "user", exp: futureTimestamp(3600) },
+                { privateKey: second.privateKey, kid: "k2" },
+            );
+
+            // The first unknown kid reloads the set right away
+            expect((await validator.validate(token)).valid).toBe(false);
+            expect(mock).toHaveBeenCalledTimes(2);
+
+            const result = await validator.validate(token);
+            expect(result.valid).toBe(false);
+            if (!result.valid) {
+                expect(result.error.code).toBe("UNKNOWN_KEY_ID");
+            }
+            expect(mock).toHaveBeenCalledTimes(2);
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+
+    test("keeps the current keys when a refresh fails", async () => {
+        const originalFetch = globalThis.fetch;
+        let calls = 0;
+        globalThis.fetch = vi.fn(async () => {
+            calls++;
+            if (calls === 1) {
+                return new Response(
+                    JSON.stringify({ keys: [jwk(first, { kid: "k1" })] }),
+                    { status: 200 },
+                );
+            }
+            return new Response("Server error", { status: 500 });
+        }) as typeof fetch;
+
+        try {
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                jwksUrl: JWKS_URL,
+                jwksRefreshCooldown: 0,
+            });
+            const unknown = await createToken(
+                { sub: "user", exp: futureTimestamp(3600) },
+                { privateKey: second.privateKey, kid: "k2" },
+            );
+            const known = await createToken(
+                { sub: "user", exp: futureTimestamp(3600) },
+                { privateKey: first.privateKey, kid: "k1" },
+            );
+
+            expect((await validator.validate(unknown)).valid).toBe(false);
+            expect((await validator.validate(known)).valid).toBe(true);
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+
+    test("throws when the JWKS cannot be fetched", async () => {
+        const originalFetch = globalThis.fetch;
+        globalThis.fetch = vi.fn(async () => {
+            return new Response("Not found", {
+                status: 404,
+                statusText: "Not Found",
+            });
+        }) as typeof fetch;
+
+        try {
+            await expect(
+                LicenseValidator.create(TEST_REALM, { jwksUrl: JWKS_URL }),
+            ).rejects.toThrow("Failed to fetch JWKS");
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+
+    test("throws when the JWKS has no usable keys", async () => {
+        const originalFetch = globalThis.fetch;
+        mockJwks({ keys: [{ kty: "RSA", kid: "rsa", n: "AQAB", e: "AQAB" }] });
+
+        try {
+            await expect(
+                LicenseValidator.create(TEST_REALM, { jwksUrl: JWKS_URL }),
+            ).rejects.toThrow("contains no Ed25519 signing keys");
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+});
+
+describe("parseJwks", () => {
+    test("selects Ed25519 signing keys only", () => {
+        const keys = parseJwks({
+            keys: [
+                jwk(first, { kid: "sig", use: "sig", alg: "EdDSA" }),
+                jwk(first, { kid: "enc", use: "enc" }),
+                jwk(first, { kid: "es256", alg: "ES256" }),
+                jwk(first, { kid: "wrap", key_ops: ["wrapKey"] }),
+                { kty: "OKP", crv: "X25519", kid: "x25519", x: "AAAA" },
+                { kty: "EC", crv: "P-256", kid: "p256", x: "AA", y: "AA" },
+                { kty: "OKP", crv: "Ed25519", kid: "short", x: "AAAA" },
+                jwk(second),
+            ],
+        });
+
+        expect(keys.map((key) => key.kid)).toEqual(["sig", undefined]);
+        expect(keys[0]?.publicKey).toEqual(first.publicKey);
+        expect(keys[1]?.publicKey).toEqual(second.publicKey);
+    });
+
+    test("keeps the first key for duplicate kids", () => {
+        const keys = parseJwks({
+            keys: [jwk(first, { kid: "a" }), jwk(second, { kid: "a" })],
+        });
+        expect(keys).toHaveLength(1);
+        expect(keys[0]?.publicKey).toEqual(first.publicKey);
+    });
+
+    test("rejects documents without a keys array", () => {
+        expect(() => parseJwks({})).toThrow("Invalid JWKS");
+        expect(() => parseJwks(null)).toThrow("Invalid JWKS");
+    });
+});
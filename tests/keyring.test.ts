@@ -0,0 +1,299 @@
+/**
+ * Tests for key rings selected by the kid header
+ */
+
+import { beforeAll, describe, expect, test } from "vitest";
+import {
+    decode,
+    generateKeyPair,
+    type KeyPair,
+    LicenseIssuer,
+    LicenseValidator,
+} from "../src/index.ts";
+import {
+    createToken,
+    futureTimestamp,
+    publicKeyHex,
+    TEST_REALM,
+} from "./helpers.ts";
+
+let current: KeyPair;
+let previous: KeyPair;
+
+beforeAll(async () => {
+    current = await generateKeyPair();
+    previous = await generateKeyPair();
+});
+
+/** Create a validator trusting both the current and the previous key */
+function createRingValidator() {
+    return LicenseValidator.create(TEST_REALM, {
+        publicKeys: [
+            { kid: "2025", publicKey: current.publicKey },
+            { kid: "2024", publicKey: previous.publicKey },
+        ],
+    });
+}
+
+describe("key ring", () => {
+    test("verifies with the key selected by kid", async () => {
+        const token = await createToken(
+            { sub: "user", exp: futureTimestamp(3600) },
+            {
+                privateKey: previous.privateKey,
+                kid: "2024",
+            },
+        );
+
+        const result = await (await createRingValidator()).validate(token);
+        expect(result.valid).toBe(true);
+        if (result.valid) {
+            expect(result.keyId).toBe("2024");
+        }
+    });
+
+    test("tries every key when the token has no kid", async () => {
+        const token = await createToken(
+            { sub: "user", exp: futureTimestamp(3600) },
+            { privateKey: current.privateKey },
+        );
+
+        const result = await (await createRingValidator()).validate(token);
+        expect(result.valid).toBe(true);
+        if (result.valid) {
+            expect(result.keyId).toBe("2025");
+        }
+    });
+
+    test("rejects unknown kid", async () => {
+        const token = await createToken(
+            { sub: "user", exp: futureTimestamp(3600) },
+            {
+                privateKey: current.privateKey,
+                kid: "2099",
+            },
+        );
+
+        const result = await (await createRingValidator()).validate(token);
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+            expect(result.error.code).toBe("UNKNOWN_KEY_ID");
+            expect(result.error.details?.knownKeyIds).toEqual(["2025", "2024"]);
+        }
+    });
+
+    test("does not fall back to other keys when kid matches", async () => {
+        const token = await createToken(
+            { sub: "user", exp: futureTimestamp(3600) },
+            {
+                privateKey: current.privateKey,
+                kid: "2024",
+            },
+        );
+
+        const result = await (await createRingValidator()).validate(token);
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+            expect(result.error.code).toBe("SIGNATURE_VERIFICATION_FAILED");
+        }
+    });
+
+    test("accepts a kid header with a single key", async () => {
+        const token = await createToken(
+            { sub: "user", exp: futureTimestamp(3600) },
+            { kid: "any" },
+        );
+
+        const validator = await LicenseValidator.create(TEST_REALM, {
+            publicKey: publicKeyHex,
+        });
+        const result = await validator.validate(token);
+        expect(result.valid).toBe(true);
+        if (result.valid) {
+            expect(result.keyId).toBeUndefined();
+        }
+    });
+
+    test("rejects a non-string kid header", async () => {
+        const token = await createToken(
+            { sub: "user", exp: futureTimestamp(3600) },
+            { header: { alg: "EdDSA", typ: "KWL", kwv: 1, kid: 7 } },
+        );
+
+        const result = await (await createRingValidator()).validate(token);
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+            expect(result.error.code).toBe("INVALID_HEADER");
+        }
+    });
+
+    test("keeps the key ring when binding", async () => {
+        const token = await createToken(
+            { sub: "user", exp: futureTimestamp(3600) },
+            {
+                privateKey: previous.privateKey,
+                kid: "2024",
+            },
+        );
+
+        const bound = await (await createRingValidator()).bind(token);
+        expect(bound.valid).toBe(true);
+        expect((await bound.revalidate()).valid).toBe(true);
+        expect((await bound.unbind().validate(token)).valid).toBe(true);
+    });
+
+    test("rejects empty key rings and duplicate key IDs", async () => {
+        await expect(
+            LicenseValidator.create(TEST_REALM, { publicKeys: [] }),
+        ).rejects.toThrow("at least one key");
+        await expect(
+            LicenseValidator.create(TEST_REALM, {
+                publicKeys: [
+                    { kid: "a", publicKey: current.publicKey },
+                    { kid: "a", publicKey: previous.publicKey },
+                ],
+            }),
+        ).rejects.toThrow("Duplicate key ID");
+    });
+
+    test("issuer writes the kid header", async () => {
+        const issuer = LicenseIssuer.create(TEST_REALM, {
+            privateKey: current.privateKey,
+            kid: "2025",
+        });
+        const token = await issuer.issue({ sub: "user" }, { expiresIn: 60 });
+
+        expect(decode(token)?.header.kid).toBe("2025");
+        const result = await (await createRingValidator()).validate(token);
+        expect(result.valid && result.keyId).toBe("2025");
+    });
+});
+
+describe("key validity windows", () => {
+    const NOW = 1_800_000_000;
+    const DAY = 86400;
+
+    /** Create a validator whose keys retire and take over at NOW - 30 days */
+    function createRotatingValidator() {
+        return LicenseValidator.create(TEST_REALM, {
+            publicKeys: [
+                {
+                    kid: "2025",
+                    publicKey: current.publicKey,
+                    notBefore: NOW - 30 * DAY,
+                },
+                {
+                    kid: "2024",
+                    publicKey: previous.publicKey,
+                    notBefore: NOW - 400 * DAY,
+                    notAfter: NOW - 30 * DAY,
+                },
+            ],
+            timing: { currentTime: NOW },
+        });
+    }
+
+    test("accepts tokens issued while the key was active", async () => {
+        const token = await createToken(
+            { sub: "user", iat: NOW - 60 * DAY, exp: NOW + DAY },
+            { privateKey: previous.privateKey, kid: "2024" },
+        );
+
+        const result = await (await createRotatingValidator()).validate(token);
+        expect(result.valid).toBe(true);
+    });
+
+    test("rejects tokens issued after the key retired", async () => {
+        const token = await createToken(
+            { sub: "user", iat: NOW - DAY, exp: NOW + DAY },
+            { privateKey: previous.privateKey, kid: "2024" },
+        );
+
+        const result = await (await createRotatingValidator()).validate(token);
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+            expect(result.error.code).toBe("KEY_NOT_ACTIVE");
+            expect(result.error.details?.kid).toBe("2024");
+            expect(result.error.details?.iat).toBe(NOW - DAY);
+        }
+    });
+
+    test("rejects tokens issued before the key became active", async () => {
+        const token = await createToken(
+            { sub: "user", iat: NOW - 60 * DAY, exp: NOW + DAY },
+            { privateKey: current.privateKey, kid: "2025" },
+        );
+
+        const result = await (await createRotatingValidator()).validate(token);
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+            expect(result.error.code).toBe("KEY_NOT_ACTIVE");
+        }
+    });
+
+    test("rejects tokens without iat when the key has a window", async () => {
+        const token = await createToken(
+            { sub: "user", exp: NOW + DAY },
+            { privateKey: current.privateKey, kid: "2025" },
+        );
+
+        const result = await (await createRotatingValidator()).validate(token);
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+            expect(result.error.code).toBe("KEY_NOT_ACTIVE");
+        }
+    });
+
+    test("tolerates clock skew at the window edges", async () => {
+        const token = await createToken(
+            { sub: "user", iat: NOW - 30 * DAY + 30, exp: NOW + DAY },
+            { privateKey: previous.privateKey, kid: "2024" },
+        );
+
+        const result = await (await createRotatingValidator()).validate(token);
+        expect(result.valid).toBe(true);
+    });
+
+    test("warns when the signing key retires soon", async () => {
+        const validator = await LicenseValidator.create(TEST_REALM, {
+            publicKeys: [
+                {
+                    kid: "2025",
+                    publicKey: current.publicKey,
+                    notAfter: NOW + 2 * DAY,
+                },
+            ],
+            timing: { currentTime: NOW },
+        });
+        const token = await createToken(
+            { sub: "user", iat: NOW - DAY, exp: NOW + 30 * DAY },
+            { privateKey: current.privateKey, kid: "2025" },
+        );
+
+        const result = await validator.validate(token);
+        expect(result.valid).toBe(true);
+        if (result.valid) {
+            expect(result.warnings?.map((w) => w.code)).toEqual([
+                "KEY_RETIRING_SOON",
+            ]);
+            expect(result.warnings?.[0]?.details?.secondsRemaining).toBe(
+                2 * DAY,
+            );
+        }
+    });
+
+    test("rejects inverted windows", async () => {
+        await expect(
+            LicenseValidator.create(TEST_REALM, {
+                publicKeys: [
+                    {
+                        kid: "a",
+                        publicKey: current.publicKey,
+                        notBefore: NOW,
+                        notAfter: NOW - 1,
+                    },
+                ],
+            }),
+        ).rejects.toThrow("notBefore is after notAfter");
+    });
+});
@@ -0,0 +1,232 @@
+/**
+ * Tests for key generation, export and import
+ */
+
+import {
+    createPrivateKey,
+    createPublicKey,
+    generateKeyPairSync,
+} from "node:crypto";
+import { describe, expect, test } from "vitest";
+import {
+    exportPrivateKey,
+    exportPublicKey,
+    generateKeyPair,
+    getPublicKey,
+    importPrivateKey,
+    importPublicKey,
+    LicenseValidator,
+    signLicense,
+} from "../src/index.ts";
+import { bytesToHex, normalizePublicKey } from "../src/utils/keys.ts";
+import { TEST_REALM } from "./helpers.ts";
+
+describe("key generation", () => {
+    test("generates a usable key pair", async () => {
+        const { publicKey, privateKey } = await generateKeyPair();
+        expect(publicKey.length).toBe(32);
+        expect(privateKey.length).toBe(32);
+
+        const token = await signLicense(
+            TEST_REALM,
+            { sub: "user" },
+            { privateKey },
+            { expiresIn: 3600 },
+        );
+        const validator = await LicenseValidator.create(TEST_REALM, {
+            publicKey: exportPublicKey(publicKey),
+        });
+        expect((await validator.validate(token)).valid).toBe(true);
+    });
+
+    test("derives the public key from the private key", async () => {
+        const { publicKey, privateKey } = await generateKeyPair();
+        expect(await getPublicKey(privateKey)).toEqual(publicKey);
+    });
+});
+
+describe("public key export and import", () => {
+    test("round-trips through every format", async () => {
+        const { publicKey } = await generateKeyPair();
+
+        expect(importPublicKey(exportPublicKey(publicKey), "hex")).toEqual(
+            publicKey,
+        );
+        expect(
+            importPublicKey(
+                exportPublicKey(publicKey, "base64url"),
+                "base64url",
+            ),
+        ).toEqual(publicKey);
+        expect(
+            importPublicKey(exportPublicKey(publicKey, "pem"), "pem"),
+        ).toEqual(publicKey);
+        expect(
+            importPublicKey(exportPublicKey(publicKey, "jwk"), "jwk"),
+        ).toEqual(publicKey);
+    });
+
+    test("exports PEM and JWK readable by node:crypto", async () => {
+        const { publicKey } = await generateKeyPair();
+
+        const keyObject = createPublicKey(exportPublicKey(publicKey, "pem"));
+        expect(keyObject.asymmetricKeyType).toBe("ed25519");
+        expect(keyObject.export({ format: "jwk" })).toEqual(
+            exportPublicKey(publicKey, "jwk"),
+        );
+    });
+
+    test("imports PEM produced by node:crypto", async () => {
+        const { publicKey } = await generateKeyPair();
+        const pem = createPublicKey({
+            key: exportPublicKey(publicKey, "jwk"),
+            format: "jwk",
+        })
+            .export({ format: "pem", type: "spki" })
+            .toString();
+
+        expect(importPublicKey(pem, "pem")).toEqual(publicKey);
+    });
+
+    test("imports JWK given as JSON string", async () => {
+        const { publicKey } = await generateKeyPair();
+        const json = JSON.stringify(exportPublicKey(publicKey, "jwk"));
+        expect(importPublicKey(json, "jwk")).toEqual(publicKey);
+    });
+
+    test("rejects JWK for a different curve", () => {
+        expect(() =>
+            importPublicKey(
+                JSON.stringify({ kty: "OKP", crv: "X25519", x: "AAAA" }),
+                "jwk",
+            ),
+        ).toThrow('expected kty "OKP" and crv "Ed25519"');
+    });
+
+    test("rejects private key PEM as public key", async () => {
+        const { privateKey } = await generateKeyPair();
+        const pem = await exportPrivateKey(privateKey, "pem");
+        expect(() => importPublicKey(pem, "pem")).toThrow("Invalid PEM");
+    });
+
+    test("rejects invalid hex", () => {
+        expect(() => importPublicKey("zz".repeat(32), "hex")).toThrow(
+            "Invalid hex string",
+        );
+    });
+});
+
+describe("public key input formats", () => {
+    test("accepts PEM, SPKI DER and JWK produced by node:crypto", async () => {
+        const { publicKey } = await generateKeyPair();
+        const keyObject = createPublicKey({
+            key: exportPublicKey(publicKey, "jwk"),
+            format: "jwk",
+        });
+        const pem = keyObject.export({ format: "pem", type: "spki" });
+        const der = keyObject.export({ format: "der", type: "spki" });
+        const jwk = keyObject.export({ format: "jwk" });
+
+        expect(normalizePublicKey(pem.toString())).toEqual(publicKey);
+        expect(normalizePublicKey(new Uint8Array(der))).toEqual(publicKey);
+        expect(normalizePublicKey(der.toString("base64"))).toEqual(publicKey);
+        expect(normalizePublicKey(jwk as never)).toEqual(publicKey);
+        expect(normalizePublicKey(JSON.stringify(jwk))).toEqual(publicKey);
+    });
+
+    test("validates tokens with a PEM public key", async () => {
+        const { publicKey, privateKey } = await generateKeyPair();
+        const token = await signLicense(
+            TEST_REALM,
+            { sub: "user" },
+            { privateKey },
+            { expiresIn: 3600 },
+        );
+        const validator = await LicenseValidator.create(TEST_REALM, {
+            publicKey: exportPublicKey(publicKey, "pem"),
+        });
+        expect((await validator.validate(token)).valid).toBe(true);
+    });
+
+    test("rejects X25519 keys with a precise error", () => {
+        const { publicKey } = generateKeyPairSync("x25519");
+        const pem = publicKey.export({ format: "pem", type: "spki" });
+        const der = publicKey.export({ format: "der", type: "spki" });
+
+        expect(() => normalizePublicKey(pem.toString())).toThrow(
+            "expected Ed25519, got X25519",
+        );
+        expect(() => normalizePublicKey(new Uint8Array(der))).toThrow(
+            "expected Ed25519, got X25519",
+        );
+        expect(() =>
+            normalizePublicKey(publicKey.export({ format: "jwk" }) as never),
+        ).toThrow('got kty "OKP" and crv "X25519"');
+    });
+
+    test("rejects P-256 keys with a precise error", () => {
+        const { publicKey } = generateKeyPairSync("ec", {
+            namedCurve: "P-256",
+        });
+        const pem = publicKey.export({ format: "pem", type: "spki" });
+
+        expect(() => normalizePublicKey(pem.toString())).toThrow(
+            "expected Ed25519, got EC P-256",
+        );
+        expect(() =>
+            normalizePublicKey(publicKey.export({ format: "jwk" }) as never),
+        ).toThrow('got kty "EC" and crv "P-256"');
+    });
+
+    test("rejects private key PEM", async () => {
+        const { privateKey } = await generateKeyPair();
+        const pem = await exportPrivateKey(privateKey, "pem");
+        expect(() => normalizePublicKey(pem)).toThrow("got a private key");
+    });
+
+    test("rejects malformed DER", () => {
+        expect(() =>
+            normalizePublicKey(new Uint8Array([0x30, 0x05, 0x30])),
+        ).toThrow("not a DER-encoded SPKI structure");
+    });
+});
+
+describe("private key export and import", () => {
+    test("round-trips through every format", async () => {
+        const { privateKey } = await generateKeyPair();
+
+        for (const format of ["hex", "base64url", "pem"] as const) {
+            const exported = await exportPrivateKey(privateKey, format);
+            expect(importPrivateKey(exported, format)).toEqual(privateKey);
+        }
+        const jwk = await exportPrivateKey(privateKey, "jwk");
+        expect(importPrivateKey(jwk, "jwk")).toEqual(privateKey);
+    });
+
+    test("exports PKCS#8 PEM and JWK readable by node:crypto", async () => {
+        const { publicKey, privateKey } = await generateKeyPair();
+
+        const keyObject = createPrivateKey(
+            await exportPrivateKey(privateKey, "pem"),
+        );
+        expect(keyObject.asymmetricKeyType).toBe("ed25519");
+
+        const jwk = await exportPrivateKey(privateKey, "jwk");
+        expect(keyObject.export({ format: "jwk" })).toEqual(jwk);
+        expect(importPublicKey(jwk, "jwk")).toEqual(publicKey);
+    });
+
+    test("imports PKCS#8 PEM produced by node:crypto", async () => {
+        const { privateKey } = await generateKeyPair();
+        const pem = createPrivateKey({
+            key: await exportPrivateKey(privateKey, "jwk"),
+            format: "jwk",
+        })
+            .export({ format: "pem", type: "pkcs8" })
+            .toString();
+
+        expect(bytesToHex(importPrivateKey(pem, "pem"))).toBe(
+            bytesToHex(privateKey),
+        );
+    });
+});
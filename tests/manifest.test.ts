@@ -0,0 +1,265 @@
+/**
+ * Tests for signed key manifests
+ */
+
+import { beforeAll, describe, expect, test, vi } from "vitest";
+import {
+    generateKeyPair,
+    type KeyPair,
+    LicenseValidator,
+    signKeyManifest,
+    verifyKeyManifest,
+} from "../src/index.ts";
+import {
+    createToken,
+    futureTimestamp,
+    pastTimestamp,
+    TEST_REALM,
+} from "./helpers.ts";
+
+let root: KeyPair;
+let signing: KeyPair;
+let next: KeyPair;
+
+beforeAll(async () => {
+    root = await generateKeyPair();
+    signing = await generateKeyPair();
+    next = await generateKeyPair();
+});
+
+/** Create a token signed by a manifest key */
+function createSignedToken(keyPair: KeyPair, kid: string) {
+    return createToken(
+        { sub: "user", exp: futureTimestamp(3600) },
+        { privateKey: keyPair.privateKey, kid },
+    );
+}
+
+describe("key manifest", () => {
+    test("round-trips the signed keys", async () => {
+        const manifest = await signKeyManifest(
+            [{ kid: "k1", publicKey: signing.publicKey, notAfter: 2000000000 }],
+            root.privateKey,
+        );
+
+        const keys = await verifyKeyManifest(manifest, root.publicKey);
+        expect(keys).toEqual([
+            { kid: "k1", publicKey: signing.publicKey, notAfter: 2000000000 },
+        ]);
+    });
+
+    test("validates tokens signed by a listed key", async () => {
+        const manifest = await signKeyManifest(
+            [
+                { kid: "k1", publicKey: signing.publicKey },
+                { kid: "k2", publicKey: next.publicKey },
+            ],
+            root.privateKey,
+            { expiresIn: 86400 },
+        );
+        const validator = await LicenseValidator.create(TEST_REALM, {
+            rootPublicKey: root.publicKey,
+            keyManifest: manifest,
+        });
+
+        const result = await validator.validate(
+            await createSignedToken(next, "k2"),
+        );
+        expect(result.valid).toBe(true);
+        if (result.valid) {
+            expect(result.keyId).toBe("k2");
+        }
+    });
+
+    test("rejects tokens signed by the root key itself", async () => {
+        const manifest = await signKeyManifest(
+            [{ kid: "k1", publicKey: signing.publicKey }],
+            root.privateKey,
+        );
+        const validator = await LicenseValidator.create(TEST_REALM, {
+            rootPublicKey: root.publicKey,
+            keyManifest: manifest,
+        });
+
+        const result = await validator.validate(
+            await createSignedToken(root, "k1"),
+        );
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+            expect(result.error.code).toBe("SIGNATURE_VERIFICATION_FAILED");
+        }
+    });
+
+    test("enforces validity windows from the manifest", async () => {
+        const manifest = await signKeyManifest(
+            [
+                {
+                    kid: "k1",
+                    publicKey: signing.publicKey,
+                    notAfter: pastTimestamp(3600),
+                },
+            ],
+            root.privateKey,
+        );
+        const validator = await LicenseValidator.create(TEST_REALM, {
+            rootPublicKey: root.publicKey,
+            keyManifest: manifest,
+        });
+
+        const result = await validator.validate(
+            await createSignedToken(signing, "k1"),
+        );
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+            expect(result.error.code).toBe("KEY_NOT_ACTIVE");
+        }
+    });
+
+    test("refuses a manifest signed by another root key", async () => {
+        const manifest = await signKeyManifest(
+            [{ kid: "k1", publicKey: signing.publicKey }],
+            signing.privateKey,
+        );
+
+        await expect(
+            LicenseValidator.create(TEST_REALM, {
+                rootPublicKey: root.publicKey,
+                keyManifest: manifest,
+            }),
+        ).rejects.toThrow("signature does not match the root key");
+    });
+
+    test("refuses an expired manifest", async () => {
+        const manifest = await signKeyManifest(
+            [{ kid: "k1", publicKey: signing.publicKey }],
+            root.privateKey,
+            { currentTime: pastTimestamp(7200), expiresIn: 3600 },
+        );
+
+        await expect(
+            verifyKeyManifest(manifest, root.publicKey),
+        ).rejects.toThrow("Key manifest expired");
+    });
+
+    test("refuses license tokens as manifests", async () => {
+        const token = await createToken(
+            { sub: "user" },
+            { privateKey: root.privateKey },
+        );
+
+        await expect(verifyKeyManifest(token, root.publicKey)).rejects.toThrow(
+            "Invalid type: expected KWM, got KWL",
+        );
+    });
+
+    test("refuses manifests with duplicate key IDs", async () => {
+        await expect(
+            signKeyManifest(
+                [
+                    { kid: "k1", publicKey: signing.publicKey },
+                    { kid: "k1", publicKey: next.publicKey },
+                ],
+                root.privateKey,
+            ),
+        ).rejects.toThrow("Duplicate key ID in key manifest: k1");
+    });
+
+    test("reloads the manifest from its URL for unknown key IDs", async () => {
+        let manifest = await signKeyManifest(
+            [{ kid: "k1", publicKey: signing.publicKey }],
+            root.privateKey,
+        );
+        const originalFetch = globalThis.fetch;
+        const mock = vi.fn(async () => new Response(manifest));
+        globalThis.fetch = mock as unknown as typeof fetch;
+
+        try {
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                rootPublicKey: root.publicKey,
+                keyManifestUrl: "https://example.com/keys.kwm",
+                keyManifestRefreshCooldown: 0,
+            });
+
+            manifest = await signKeyManifest(
+                [
+                    { kid: "k1", publicKey: signing.publicKey },
+                    { kid: "k2", publicKey: next.publicKey },
+                ],
+                root.privateKey,
+            );
+            const result = await validator.validate(
+                await createSignedToken(next, "k2"),
+            );
+            expect(result.valid).toBe(true);
+            expect(mock).toHaveBeenCalledTimes(2);
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+
+    test("stops trusting a bundled manifest once it expires", async () => {
+        const manifest = await signKeyManifest(
+            [{ kid: "k1", publicKey: signing.publicKey }],
+            root.privateKey,
+            { expiresIn: 3600 },
+        );
+        const token = await createToken(
+            { sub: "user", exp: futureTimestamp(30 * 86400) },
+            { privateKey: signing.privateKey, kid: "k1" },
+        );
+        vi.useFakeTimers({ toFake: ["Date"] });
+
+        try {
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                rootPublicKey: root.publicKey,
+                keyManifest: manifest,
+            });
+            expect((await validator.validate(token)).valid).toBe(true);
+
+            vi.advanceTimersByTime(7200_000);
+            const result = await validator.validate(token);
+            expect(result.valid).toBe(false);
+            if (!result.valid) {
+                expect(result.error.code).toBe("KEY_MANIFEST_EXPIRED");
+                expect(result.error.message).toContain("Key manifest expired");
+            }
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    test("reloads an expired manifest from its URL", async () => {
+        let manifest = await signKeyManifest(
+            [{ kid: "k1", publicKey: signing.publicKey }],
+            root.privateKey,
+            { expiresIn: 3600 },
+        );
+        const token = await createToken(
+            { sub: "user", exp: futureTimestamp(30 * 86400) },
+            { privateKey: signing.privateKey, kid: "k1" },
+        );
+        const originalFetch = globalThis.fetch;
+        const mock = vi.fn(async () => new Response(manifest));
+        globalThis.fetch = mock as unknown as typeof fetch;
+        vi.useFakeTimers({ toFake: ["Date"] });
+
+        try {
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                rootPublicKey: root.publicKey,
+                keyManifestUrl: "https://example.com/keys.kwm",
+            });
+
+            vi.advanceTimersByTime(7200_000);
+            manifest = await signKeyManifest(
+                [{ kid: "k1", publicKey: signing.publicKey }],
+                root.privateKey,
+                { expiresIn: 3600 },
+            );
+            expect((await validator.validate(token)).valid).toBe(true);
+            expect(mock).toHaveBeenCalledTimes(2);
+        } finally {
+            vi.useRealTimers();
+            globalThis.fetch = originalFetch;
+        }
+    });
+});
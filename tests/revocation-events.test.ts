@@ -0,0 +1,316 @@
+/**
+ * Tests for push-based revocation updates over Server-Sent Events
+ */
+
+import {
+    createServer,
+    type IncomingMessage,
+    type Server,
+    type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import {
+    clearRevocationCache,
+    LicenseValidator,
+    type RevocationList,
+    type RevocationUpdate,
+    UrlRevocationProvider,
+} from "../src/index.ts";
+import {
+    EventStream,
+    type ServerSentEvent,
+} from "../src/utils/event-stream.ts";
+import {
+    createToken,
+    futureTimestamp,
+    publicKeyHex,
+    TEST_REALM,
+} from "./helpers.ts";
+
+/** Local server serving a revocation list and its event stream */
+interface TestServer {
+    url: string;
+    /** Revocation list served at /list */
+    list: RevocationList;
+    /** Number of requests for /list */
+    listRequests: number;
+    /** Last-Event-ID header of each connection to /events */
+    lastEventIds: (string | undefined)[];
+    /** Write raw text to the open event streams */
+    write(text: string): void;
+    /** End the open event streams */
+    drop(): void;
+    /** Resolves once this many connections to /events have been made */
+    connections(count: number): Promise<void>;
+}
+
+let server: Server;
+let testServer: TestServer;
+
+beforeEach(async () => {
+    const streams = new Set<ServerResponse>();
+    const waiting: { count: number; resolve: () => void }[] = [];
+
+    const handle = (request: IncomingMessage, response: ServerResponse) => {
+        if (request.url === "/list") {
+            testServer.listRequests++;
+            response.setHeader("Content-Type", "application/json");
+            response.end(JSON.stringify(testServer.list));
+            return;
+        }
+        if (request.url === "/events") {
+            response.writeHead(200, { "Content-Type": "text/event-stream" });
+            response.flushHeaders();
+            streams.add(response);
+            response.on("close", () => streams.delete(response));
+            const lastEventId = request.headers["last-event-id"];
+            testServer.lastEventIds.push(
+                typeof lastEventId === "string" ? lastEventId : undefined,
+            );
+            for (const wait of waiting) {
+                if (testServer.lastEventIds.length >= wait.count) {
+                    wait.resolve();
+                }
+            }
+            return;
+        }
+        response.statusCode = 404;
+        response.end();
+    };
+
+    server = createServer(handle);
+    await new Promise<void>((resolve) =>
+        server.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+
+    testServer = {
+        url: `http://127.0.0.1:${port}`,
+        list: { seq: 1, jti: ["other"] },
+        listRequests: 0,
+        lastEventIds: [],
+        write(text) {
+            for (const stream of streams) {
+                stream.write(text);
+            }
+        },
+        drop() {
+            for (const stream of streams) {
+                stream.end();
+            }
+        },
+        connections(count) {
+            if (testServer.lastEventIds.length >= count) {
+                return Promise.resolve();
+            }
+            return new Promise((resolve) => waiting.push({ count, resolve }));
+        },
+    };
+});
+
+afterEach(async () => {
+    clearRevocationCache();
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+});
+
+/**
+ * Collect updates passed to a listener, resolving waiters as they arrive
+ */
+function updateRecorder() {
+    const updates: RevocationUpdate[] = [];
+    const waiting: { count: number; resolve: () => void }[] = [];
+    return {
+        updates,
+        listener: (update: RevocationUpdate) => {
+            updates.push(update);
+            for (const wait of waiting) {
+                if (updates.length >= wait.count) {
+                    wait.resolve();
+                }
+            }
+        },
+        received(count: number): Promise<void> {
+            if (updates.length >= count) {
+                return Promise.resolve();
+            }
+            return new Promise((resolve) => waiting.push({ count, resolve }));
+        },
+    };
+}
+
+/**
+ * Format a revocation event
+ */
+function event(data: unknown, id: number): string {
+    return `id: ${id}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+describe("revocation events", () => {
+    test("applies pushed deltas and notifies listeners", async () => {
+        const validator = await LicenseValidator.create(TEST_REALM, {
+            publicKey: publicKeyHex,
+            revocationUrl: `${testServer.url}/list`,
+            revocationEventsUrl: `${testServer.url}/events`,
+        });
+        const token = await createToken({
+            jti: "token-1",
+            exp: futureTimestamp(30 * 86400),
+        });
+        const bound = await LicenseValidator.createWithToken(
+            TEST_REALM,
+            {
+                publicKey: publicKeyHex,
+                revocationUrl: `${testServer.url}/list`,
+            },
+            token,
+        );
+        expect(bound.valid).toBe(true);
+
+        const recorder = updateRecorder();
+        const unsubscribe = validator.subscribeToRevocations(recorder.listener);
+        try {
+            await testServer.connections(1);
+            testServer.write(
+                event({ since: 1, seq: 2, add: { jti: ["token-1"] } }, 2),
+            );
+            await recorder.received(1);
+
+            expect(recorder.updates).toEqual([
+                { source: `${testServer.url}/list`, seq: 2 },
+            ]);
+            const result = await validator.validate(token);
+            expect(result.valid).toBe(false);
+            if (!result.valid) {
+                expect(result.error.code).toBe("TOKEN_REVOKED");
+            }
+            expect(testServer.listRequests).toBe(1);
+
+            // Bound validators sharing the cached list see the update
+            const revalidated = await bound.revalidate();
+            expect(revalidated.valid).toBe(false);
+        } finally {
+            await unsubscribe();
+        }
+    });
+
+    test("reconnects with Last-Event-ID", async () => {
+        const provider = new UrlRevocationProvider(`${testServer.url}/list`, {
+            eventsUrl: `${testServer.url}/events`,
+            eventsReconnectDelay: 10,
+        });
+        const validator = await LicenseValidator.create(TEST_REALM, {
+            publicKey: publicKeyHex,
+            revocationProvider: provider,
+        });
+        await validator.validate(
+            await createToken({ exp: futureTimestamp(30 * 86400) }),
+        );
+
+        const recorder = updateRecorder();
+        const unsubscribe = validator.subscribeToRevocations(recorder.listener);
+        try {
+            await testServer.connections(1);
+            testServer.write(event({ since: 1, seq: 2 }, 2));
+            await recorder.received(1);
+            testServer.drop();
+
+            await testServer.connections(2);
+            expect(testServer.lastEventIds).toEqual([undefined, "2"]);
+            testServer.write(
+                event({ since: 2, seq: 3, add: { sub: ["acme"] } }, 3),
+            );
+            await recorder.received(2);
+            expect(recorder.updates.map((update) => update.seq)).toEqual([
+                2, 3,
+            ]);
+        } finally {
+            await unsubscribe();
+        }
+    });
+
+    test("refetches the list when a delta does not apply", async () => {
+        const validator = await LicenseValidator.create(TEST_REALM, {
+            publicKey: publicKeyHex,
+            revocationUrl: `${testServer.url}/list`,
+            revocationEventsUrl: `${testServer.url}/events`,
+        });
+        await validator.validate(
+            await createToken({ exp: futureTimestamp(30 * 86400) }),
+        );
+
+        const recorder = updateRecorder();
+        const unsubscribe = validator.subscribeToRevocations(recorder.listener);
+        try {
+            await testServer.connections(1);
+
+            // Deltas already applied are ignored
+            testServer.write(event({ since: 0, seq: 1 }, 1));
+            testServer.list = { seq: 5, sub: ["acme"] };
+            testServer.write(event({ since: 4, seq: 5 }, 5));
+            await recorder.received(1);
+            expect(testServer.listRequests).toBe(2);
+
+            testServer.list = { seq: 6 };
+            testServer.write("event: refresh\ndata: {}\n\n");
+            await recorder.received(2);
+            expect(recorder.updates.map((update) => update.seq)).toEqual([
+                5, 6,
+            ]);
+            expect(testServer.listRequests).toBe(3);
+        } finally {
+            await unsubscribe();
+        }
+    });
+
+    test("requires an events URL to subscribe", async () => {
+        const validator = await LicenseValidator.create(TEST_REALM, {
+            publicKey: publicKeyHex,
+            revocationUrl: `${testServer.url}/list`,
+        });
+        expect(() => validator.subscribeToRevocations(vi.fn())).toThrow(
+            "No events URL configured",
+        );
+
+        const withoutProvider = await LicenseValidator.create(TEST_REALM, {
+            publicKey: publicKeyHex,
+        });
+        expect(() => withoutProvider.subscribeToRevocations(vi.fn())).toThrow(
+            "does not support subscriptions",
+        );
+    });
+});
+
+describe("EventStream", () => {
+    test("parses fields split across chunks", async () => {
+        const events: ServerSentEvent[] = [];
+        let stream: EventStream | undefined;
+        const done = new Promise<void>((resolve) => {
+            stream = new EventStream(`${testServer.url}/events`, {
+                onEvent: (event) => {
+                    events.push(event);
+                    if (events.length === 2) {
+                        resolve();
+                    }
+                },
+            });
+        });
+        stream?.start();
+        try {
+            await testServer.connections(1);
+            testServer.write(": comment\r\nretry: 50\r\nid: 7\r");
+            testServer.write("\ndata: first\r\ndata:second\r\n\r\n");
+            testServer.write("event: custom\nid\ndata\n\n");
+            await done;
+
+            expect(events).toEqual([
+                { event: "message", data: "first\nsecond", id: "7" },
+                { event: "custom", data: "", id: "" },
+            ]);
+            expect(stream?.lastEventId).toBe("");
+        } finally {
+            await stream?.close();
+        }
+    });
+});
@@ -2,15 +2,41 @@
  * Tests for revocation list
  */
 
-import { describe, expect, test, vi } from "vitest";
-import { LicenseValidator } from "../src/index.ts";
+import { afterEach, describe, expect, test, vi } from "vitest";
+import {
+    applyRevocationListDelta,
+    CompositeRevocationProvider,
+    clearRevocationCache,
+    createRevocationListDelta,
+    generateKeyPair,
+    getKeyFingerprint,
+    type IssueOptions,
+    LicenseIssuer,
+    LicenseValidator,
+    MemoryRevocationStateStore,
+    parseRevocationList,
+    parseRevocationListDelta,
+    type RevocationList,
+    type RevocationListDelta,
+    type RevocationProvider,
+    StaticRevocationProvider,
+    UrlRevocationProvider,
+    verifyRevocationList,
+} from "../src/index.ts";
 import {
     createToken,
     futureTimestamp,
+    pastTimestamp,
+    privateKey,
+    publicKey,
     publicKeyHex,
     TEST_REALM,
 } from "./helpers.ts";
 
+afterEach(() => {
+    clearRevocationCache();
+});
+
 describe("revocation", () => {
     describe("static revocation list", () => {
         test("rejects token with revoked jti", async () => {
@@ -93,6 +119,29 @@ describe("revocation", () => {
             const result = await validator.validate(token);
             expect(result.valid).toBe(true);
         });
+
+        test("keeps its own copy of the list", async () => {
+            const list: RevocationList = { jti: ["a"] };
+            const provider = new StaticRevocationProvider(list);
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+                revocationProvider: provider,
+            });
+            const tokenA = await createToken({
+                jti: "a",
+                exp: futureTimestamp(30 * 86400),
+            });
+            const tokenB = await createToken({
+                jti: "b",
+                exp: futureTimestamp(30 * 86400),
+            });
+            expect((await validator.validate(tokenA)).valid).toBe(false);
+
+            list.jti![0] = "b";
+            expect((await validator.validate(tokenA)).valid).toBe(false);
+            expect((await validator.validate(tokenB)).valid).toBe(true);
+            expect(Object.isFrozen(provider.list.jti)).toBe(true);
+        });
     });
 
     describe("static key with URL revocation", () => {
@@ -332,4 +381,1719 @@ describe("revocation", () => {
             }
         });
     });
+
+    describe("revocation list parsing", () => {
+        test("accepts a well-formed list", () => {
+            const result = parseRevocationList({
+                jti: ["a", "b"],
+                sub: ["user@example.com"],
+            });
+            expect(result.success).toBe(true);
+        });
+
+        test("accepts an empty list", () => {
+            expect(parseRevocationList({}).success).toBe(true);
+        });
+
+        test("reports every problem", () => {
+            const result = parseRevocationList({
+                jti: ["a", 42, ""],
+                sub: "user@example.com",
+                jtis: [],
+            });
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.errors).toEqual([
+                    '"jti[1]" must be a non-empty string',
+                    '"jti[2]" must be a non-empty string',
+                    '"sub" must be an array of strings',
+                    'Unknown field "jtis"',
+                ]);
+            }
+        });
+
+        test("rejects ids listed more than once", () => {
+            const result = parseRevocationList({
+                jti: ["a", { id: "a", flags: ["export"] }],
+                sub: [{ id: "b" }, "c", "b"],
+            });
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.errors).toEqual([
+                    '"jti" lists "a" more than once',
+                    '"sub" lists "b" more than once',
+                ]);
+            }
+        });
+
+        test("checks revoked key entries", () => {
+            const result = parseRevocationList({
+                keys: [
+                    { kid: "2024" },
+                    { compromisedAt: 1700000000 },
+                    { fingerprint: "abc", compromisedAt: "yesterday" },
+                    { kid: "2025", reason: "leak" },
+                ],
+            });
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.errors).toEqual([
+                    '"keys[1]" must have a kid or a fingerprint',
+                    '"keys[2].fingerprint" must be a SHA-256 fingerprint in hex or base64url',
+                    '"keys[2].compromisedAt" must be a Unix timestamp',
+                    'Unknown field "keys[3].reason"',
+                ]);
+            }
+        });
+
+        test("rejects non-objects", () => {
+            expect(parseRevocationList(["a"]).success).toBe(false);
+            expect(parseRevocationList(null).success).toBe(false);
+        });
+
+        test("drops unknown top-level fields when asked", () => {
+            const result = parseRevocationList(
+                { jti: ["a"], publisher: "billing" },
+                { ignoreUnknownFields: true },
+            );
+            expect(result).toEqual({ success: true, data: { jti: ["a"] } });
+
+            const nested = parseRevocationList(
+                { keys: [{ kid: "2025", reason: "leak" }] },
+                { ignoreUnknownFields: true },
+            );
+            expect(nested.success).toBe(false);
+        });
+
+        test("applies a fetched list with unknown top-level fields", async () => {
+            const originalFetch = globalThis.fetch;
+            globalThis.fetch = vi.fn(
+                async () =>
+                    new Response(
+                        JSON.stringify({
+                            jti: ["revoked-token"],
+                            publisher: "billing",
+                        }),
+                    ),
+            ) as unknown as typeof fetch;
+
+            try {
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl: "https://example.com/revocation.json",
+                });
+                const result = await validator.validate(
+                    await createToken({
+                        jti: "revoked-token",
+                        exp: futureTimestamp(3600),
+                    }),
+                );
+                expect(result.valid).toBe(false);
+                if (!result.valid) {
+                    expect(result.error.code).toBe("TOKEN_REVOKED");
+                }
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+
+        test("ignores a malformed list fetched from URL", async () => {
+            const originalFetch = globalThis.fetch;
+            globalThis.fetch = vi.fn(async () => {
+                return new Response(JSON.stringify({ jti: "revoked-token" }), {
+                    status: 200,
+                });
+            }) as typeof fetch;
+
+            try {
+                const token = await createToken({
+                    jti: "revoked-token",
+                    exp: futureTimestamp(3600),
+                });
+
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl: "https://example.com/revocation.json",
+                });
+
+                const result = await validator.validate(token);
+                expect(result.valid).toBe(true);
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+    });
+
+    describe("signing key revocation", () => {
+        test("rejects tokens signed by a revoked kid", async () => {
+            const token = await createToken(
+                {
+                    sub: "user",
+                    iat: futureTimestamp(0),
+                    exp: futureTimestamp(3600),
+                },
+                { kid: "2024" },
+            );
+
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKeys: [{ kid: "2024", publicKey: publicKeyHex }],
+                revocation: { keys: [{ kid: "2024" }] },
+            });
+
+            const result = await validator.validate(token);
+            expect(result.valid).toBe(false);
+            if (!result.valid) {
+                expect(result.error.code).toBe("SIGNING_KEY_REVOKED");
+                expect(result.error.details?.kid).toBe("2024");
+                expect(result.error.details?.reason).toBe("key_revoked");
+            }
+        });
+
+        test("rejects tokens signed by a revoked fingerprint", async () => {
+            const token = await createToken({
+                sub: "user",
+                exp: futureTimestamp(3600),
+            });
+
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+                revocation: {
+                    keys: [
+                        {
+                            fingerprint: await getKeyFingerprint(
+                                publicKeyHex,
+                                "base64url",
+                            ),
+                        },
+                    ],
+                },
+            });
+
+            const result = await validator.validate(token);
+            expect(result.valid).toBe(false);
+            if (!result.valid) {
+                expect(result.error.code).toBe("SIGNING_KEY_REVOKED");
+            }
+        });
+
+        test("accepts tokens issued before the compromise", async () => {
+            const compromisedAt = futureTimestamp(-60);
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKeys: [{ kid: "2024", publicKey: publicKeyHex }],
+                revocation: { keys: [{ kid: "2024", compromisedAt }] },
+            });
+
+            const before = await createToken(
+                { iat: compromisedAt - 3600, exp: futureTimestamp(3600) },
+                { kid: "2024" },
+            );
+            const after = await createToken(
+                { iat: compromisedAt, exp: futureTimestamp(3600) },
+                { kid: "2024" },
+            );
+            const withoutIat = await createToken(
+                { exp: futureTimestamp(3600) },
+                { kid: "2024" },
+            );
+
+            expect((await validator.validate(before)).valid).toBe(true);
+            expect((await validator.validate(after)).valid).toBe(false);
+            expect((await validator.validate(withoutIat)).valid).toBe(false);
+        });
+
+        test("ignores entries for other keys", async () => {
+            const token = await createToken(
+                { sub: "user", exp: futureTimestamp(3600) },
+                { kid: "2025" },
+            );
+
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+                revocation: {
+                    keys: [{ kid: "2024" }, { fingerprint: "00".repeat(32) }],
+                },
+            });
+
+            expect((await validator.validate(token)).valid).toBe(true);
+        });
+    });
+
+    describe("revocation list cache", () => {
+        const revocationUrl = "https://example.com/cached-revocation.json";
+
+        test("fetches the list once for repeated checks", async () => {
+            const originalFetch = globalThis.fetch;
+            const mock = vi.fn(
+                async () => new Response(JSON.stringify({ jti: [] })),
+            );
+            globalThis.fetch = mock as unknown as typeof fetch;
+
+            try {
+                const token = await createToken({
+                    flags: ["a", "b", "c"],
+                    exp: futureTimestamp(3600),
+                });
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                });
+
+                for (const flag of ["a", "b", "c", "d", "e"]) {
+                    await validator.hasFlag(token, flag);
+                }
+                expect(mock).toHaveBeenCalledTimes(1);
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+
+        test("revalidates an expired list with If-None-Match", async () => {
+            const originalFetch = globalThis.fetch;
+            const mock = vi.fn(async (_url: string, init?: RequestInit) => {
+                const headers = new Headers(init?.headers);
+                if (headers.get("If-None-Match") === '"r1"') {
+                    return new Response(null, { status: 304 });
+                }
+                return new Response(JSON.stringify({ jti: ["revoked"] }), {
+                    headers: { ETag: '"r1"' },
+                });
+            });
+            globalThis.fetch = mock as unknown as typeof fetch;
+
+            try {
+                const token = await createToken({
+                    jti: "revoked",
+                    exp: futureTimestamp(3600),
+                });
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                    revocationCacheTtl: 0,
+                });
+
+                expect((await validator.validate(token)).valid).toBe(false);
+                expect((await validator.validate(token)).valid).toBe(false);
+                expect(mock).toHaveBeenCalledTimes(2);
+                expect(
+                    new Headers(mock.mock.calls[1]?.[1]?.headers).get(
+                        "If-None-Match",
+                    ),
+                ).toBe('"r1"');
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+
+        test("refreshes the list on demand", async () => {
+            const originalFetch = globalThis.fetch;
+            let revoked: string[] = [];
+            globalThis.fetch = vi.fn(
+                async () => new Response(JSON.stringify({ jti: revoked })),
+            ) as unknown as typeof fetch;
+
+            try {
+                const token = await createToken({
+                    jti: "token-1",
+                    exp: futureTimestamp(3600),
+                });
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                });
+
+                expect((await validator.validate(token)).valid).toBe(true);
+                revoked = ["token-1"];
+                expect((await validator.validate(token)).valid).toBe(true);
+
+                expect(await validator.refreshRevocationList()).toBe(true);
+                expect((await validator.validate(token)).valid).toBe(false);
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+
+        test("serves an expired list while refreshing in the background", async () => {
+            const originalFetch = globalThis.fetch;
+            let revoked: string[] = [];
+            const mock = vi.fn(
+                async () => new Response(JSON.stringify({ jti: revoked })),
+            );
+            globalThis.fetch = mock as unknown as typeof fetch;
+
+            try {
+                const token = await createToken({
+                    jti: "token-1",
+                    exp: futureTimestamp(3600),
+                });
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                    revocationCacheTtl: 0,
+                    revocationStaleWhileRevalidate: 300,
+                });
+
+                expect((await validator.validate(token)).valid).toBe(true);
+                revoked = ["token-1"];
+
+                // The expired list is served while the new one loads
+                expect((await validator.validate(token)).valid).toBe(true);
+                expect(mock).toHaveBeenCalledTimes(2);
+                await vi.waitFor(async () => {
+                    expect((await validator.validate(token)).valid).toBe(false);
+                });
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+
+        test("returns false when refreshing without a URL", async () => {
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+            });
+            expect(await validator.refreshRevocationList()).toBe(false);
+        });
+    });
+
+    describe("revocation failure policy", () => {
+        const revocationUrl = "https://example.com/policy-revocation.json";
+
+        /** Mock fetch serving the list until `available` is cleared */
+        function mockRevocationServer() {
+            const server = { available: true };
+            globalThis.fetch = vi.fn(async () =>
+                server.available
+                    ? new Response(JSON.stringify({ jti: [] }))
+                    : new Response("Unavailable", {
+                          status: 503,
+                          statusText: "Service Unavailable",
+                      }),
+            ) as unknown as typeof fetch;
+            return server;
+        }
+
+        test("fails open with a warning by default", async () => {
+            const originalFetch = globalThis.fetch;
+            const server = mockRevocationServer();
+            server.available = false;
+
+            try {
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                });
+                const result = await validator.validate(
+                    await createToken({ exp: futureTimestamp(3600) }),
+                );
+                expect(result.valid).toBe(true);
+                if (result.valid) {
+                    expect(result.warnings?.[0]?.code).toBe(
+                        "REVOCATION_UNAVAILABLE",
+                    );
+                    expect(result.warnings?.[0]?.details?.url).toBe(
+                        revocationUrl,
+                    );
+                }
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+
+        test("fails closed when configured", async () => {
+            const originalFetch = globalThis.fetch;
+            const server = mockRevocationServer();
+            server.available = false;
+
+            try {
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                    revocationFailurePolicy: "fail-closed",
+                });
+                const result = await validator.validate(
+                    await createToken({ exp: futureTimestamp(3600) }),
+                );
+                expect(result.valid).toBe(false);
+                if (!result.valid) {
+                    expect(result.error.code).toBe("REVOCATION_UNAVAILABLE");
+                    expect(result.error.message).toContain(
+                        "503 Service Unavailable",
+                    );
+                }
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+
+        test("fails closed when a fetched list cannot be refreshed", async () => {
+            const originalFetch = globalThis.fetch;
+            const server = mockRevocationServer();
+
+            try {
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                    revocationCacheTtl: 0,
+                    revocationFailurePolicy: "fail-closed",
+                });
+                const token = await createToken({ exp: futureTimestamp(3600) });
+
+                expect((await validator.validate(token)).valid).toBe(true);
+                server.available = false;
+                expect((await validator.validate(token)).valid).toBe(false);
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+
+        test("uses the last fetched list while it is within maxAge", async () => {
+            const originalFetch = globalThis.fetch;
+            const server = mockRevocationServer();
+
+            try {
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                    revocationCacheTtl: 0,
+                    revocationFailurePolicy: { maxAge: 3600 },
+                });
+                const token = await createToken({ exp: futureTimestamp(3600) });
+
+                expect((await validator.validate(token)).valid).toBe(true);
+                server.available = false;
+                const result = await validator.validate(token);
+                expect(result.valid).toBe(true);
+                if (result.valid) {
+                    expect(result.warnings?.[0]?.code).toBe(
+                        "REVOCATION_UNAVAILABLE",
+                    );
+                }
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+
+        test("fails once the last fetched list is older than maxAge", async () => {
+            const originalFetch = globalThis.fetch;
+            const server = mockRevocationServer();
+            vi.useFakeTimers({ toFake: ["Date"] });
+
+            try {
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                    revocationCacheTtl: 0,
+                    revocationFailurePolicy: { maxAge: 60 },
+                });
+                const token = await createToken({ exp: futureTimestamp(3600) });
+
+                expect((await validator.validate(token)).valid).toBe(true);
+                server.available = false;
+                vi.advanceTimersByTime(120_000);
+                const result = await validator.validate(token);
+                expect(result.valid).toBe(false);
+                if (!result.valid) {
+                    expect(result.error.code).toBe("REVOCATION_UNAVAILABLE");
+                }
+            } finally {
+                vi.useRealTimers();
+                globalThis.fetch = originalFetch;
+            }
+        });
+
+        test("fails with maxAge when no list was ever fetched", async () => {
+            const originalFetch = globalThis.fetch;
+            const server = mockRevocationServer();
+            server.available = false;
+
+            try {
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                    revocationFailurePolicy: { maxAge: 3600 },
+                });
+                const result = await validator.validate(
+                    await createToken({ exp: futureTimestamp(3600) }),
+                );
+                expect(result.valid).toBe(false);
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+    });
+
+    describe("signed revocation lists", () => {
+        const revocationUrl = "https://example.com/revocation.kwr";
+
+        /** Sign a revocation list with the test key */
+        function signList(
+            list: RevocationList,
+            options?: IssueOptions,
+            realm = TEST_REALM,
+        ) {
+            return LicenseIssuer.create(realm, {
+                privateKey,
+            }).signRevocationList(list, options);
+        }
+
+        test("round-trips the signed list", async () => {
+            const signed = await signList({
+                jti: ["token-1"],
+            });
+
+            const verified = await verifyRevocationList(
+                signed,
+                [{ publicKey }],
+                TEST_REALM,
+            );
+            expect(verified.list).toEqual({ jti: ["token-1"] });
+        });
+
+        test("applies a list signed by a trusted key", async () => {
+            const originalFetch = globalThis.fetch;
+            const signed = await signList({
+                jti: ["token-1"],
+            });
+            globalThis.fetch = vi.fn(
+                async () => new Response(signed),
+            ) as unknown as typeof fetch;
+
+            try {
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                    revocationRequireSignature: true,
+                });
+                const result = await validator.validate(
+                    await createToken({
+                        jti: "token-1",
+                        exp: futureTimestamp(3600),
+                    }),
+                );
+                expect(result.valid).toBe(false);
+                if (!result.valid) {
+                    expect(result.error.code).toBe("TOKEN_REVOKED");
+                }
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+
+        test("refuses a list signed by an untrusted key", async () => {
+            const originalFetch = globalThis.fetch;
+            const attacker = await generateKeyPair();
+            const signed = await LicenseIssuer.create(TEST_REALM, {
+                privateKey: attacker.privateKey,
+            }).signRevocationList({ jti: [] });
+            globalThis.fetch = vi.fn(
+                async () => new Response(signed),
+            ) as unknown as typeof fetch;
+
+            try {
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                    revocationFailurePolicy: "fail-closed",
+                });
+                const result = await validator.validate(
+                    await createToken({ exp: futureTimestamp(3600) }),
+                );
+                expect(result.valid).toBe(false);
+                if (!result.valid) {
+                    expect(result.error.code).toBe("REVOCATION_UNAVAILABLE");
+                    expect(result.error.message).toContain(
+                        "JWT signature verification failed",
+                    );
+                }
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+
+        test("refuses unsigned lists when a signature is required", async () => {
+            const originalFetch = globalThis.fetch;
+            globalThis.fetch = vi.fn(
+                async () => new Response(JSON.stringify({ jti: [] })),
+            ) as unknown as typeof fetch;
+
+            try {
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                    revocationRequireSignature: true,
+                });
+                const result = await validator.validate(
+                    await createToken({ exp: futureTimestamp(3600) }),
+                );
+                expect(result.valid).toBe(true);
+                if (result.valid) {
+                    expect(result.warnings?.[0]?.code).toBe(
+                        "REVOCATION_UNAVAILABLE",
+                    );
+                    expect(result.warnings?.[0]?.message).toContain(
+                        "Revocation list is not signed",
+                    );
+                }
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+
+        test("refuses unsigned lists after a signed one", async () => {
+            const originalFetch = globalThis.fetch;
+            let body = await signList({ jti: ["token-1"] });
+            globalThis.fetch = vi.fn(
+                async () => new Response(body),
+            ) as unknown as typeof fetch;
+
+            try {
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                    revocationCacheTtl: 0,
+                });
+                const token = await createToken({
+                    jti: "token-1",
+                    exp: futureTimestamp(3600),
+                });
+
+                expect((await validator.validate(token)).valid).toBe(false);
+                body = JSON.stringify({});
+                const result = await validator.validate(token);
+                expect(result.valid).toBe(false);
+                if (!result.valid) {
+                    expect(result.error.code).toBe("TOKEN_REVOKED");
+                }
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+
+        test("refuses lists signed for another realm", async () => {
+            const signed = await signList({ jti: [] }, {}, "other-app");
+
+            await expect(
+                verifyRevocationList(signed, [{ publicKey }], TEST_REALM),
+            ).rejects.toThrow("issued for realm other-app");
+        });
+
+        test("refuses a cached list verified for another realm", async () => {
+            const originalFetch = globalThis.fetch;
+            const signed = await signList({ jti: [] }, {}, "other-app");
+            globalThis.fetch = vi.fn(
+                async () => new Response(signed),
+            ) as unknown as typeof fetch;
+
+            try {
+                const other = await LicenseValidator.create("other-app", {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                });
+                const otherResult = await other.validate(
+                    await createToken({
+                        aud: "other-app",
+                        exp: futureTimestamp(30 * 86400),
+                    }),
+                );
+                expect(otherResult.valid).toBe(true);
+                if (otherResult.valid) {
+                    expect(otherResult.warnings).toBeUndefined();
+                }
+
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                    revocationFailurePolicy: "fail-closed",
+                });
+                const result = await validator.validate(
+                    await createToken({ exp: futureTimestamp(3600) }),
+                );
+                expect(result.valid).toBe(false);
+                if (!result.valid) {
+                    expect(result.error.code).toBe("REVOCATION_UNAVAILABLE");
+                    expect(result.error.message).toContain(
+                        "issued for realm other-app, expected test-app",
+                    );
+                }
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+
+        test("refuses expired lists", async () => {
+            const signed = await signList(
+                { jti: [] },
+                { currentTime: pastTimestamp(7200), expiresIn: 3600 },
+            );
+
+            await expect(
+                verifyRevocationList(signed, [{ publicKey }], TEST_REALM),
+            ).rejects.toThrow("Signed revocation list expired");
+        });
+
+        test("refuses to sign an invalid list", async () => {
+            await expect(signList({ jti: "token-1" } as never)).rejects.toThrow(
+                '"jti" must be an array of strings',
+            );
+        });
+    });
+
+    describe("revocation list sequence and nextUpdate", () => {
+        const revocationUrl = "https://example.com/sequenced-revocation.json";
+
+        test("rejects invalid metadata fields", () => {
+            const result = parseRevocationList({ seq: -1, nextUpdate: "soon" });
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.errors).toEqual([
+                    '"seq" must be a non-negative integer',
+                    '"nextUpdate" must be a non-negative integer',
+                ]);
+            }
+        });
+
+        test("keeps the newer list when an older one is served", async () => {
+            const originalFetch = globalThis.fetch;
+            let list: RevocationList = { seq: 2, jti: ["token-1"] };
+            globalThis.fetch = vi.fn(
+                async () => new Response(JSON.stringify(list)),
+            ) as unknown as typeof fetch;
+
+            try {
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                    revocationCacheTtl: 0,
+                });
+                const token = await createToken({
+                    jti: "token-1",
+                    exp: futureTimestamp(3600),
+                });
+
+                expect((await validator.validate(token)).valid).toBe(false);
+                list = { seq: 1, jti: [] };
+                const result = await validator.validate(token);
+                expect(result.valid).toBe(false);
+                if (!result.valid) {
+                    expect(result.error.code).toBe("TOKEN_REVOKED");
+                }
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+
+        test("remembers sequence numbers in the configured store", async () => {
+            const originalFetch = globalThis.fetch;
+            globalThis.fetch = vi.fn(
+                async () => new Response(JSON.stringify({ seq: 3, jti: [] })),
+            ) as unknown as typeof fetch;
+
+            try {
+                const store = new MemoryRevocationStateStore();
+                store.setSequence(revocationUrl, 5);
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                    revocationStateStore: store,
+                    revocationFailurePolicy: "fail-closed",
+                });
+
+                const result = await validator.validate(
+                    await createToken({ exp: futureTimestamp(3600) }),
+                );
+                expect(result.valid).toBe(false);
+                if (!result.valid) {
+                    expect(result.error.message).toContain(
+                        "sequence 3 is older than 5",
+                    );
+                }
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+
+        test("records newer sequence numbers", async () => {
+            const originalFetch = globalThis.fetch;
+            globalThis.fetch = vi.fn(
+                async () => new Response(JSON.stringify({ seq: 7 })),
+            ) as unknown as typeof fetch;
+
+            try {
+                const store = new MemoryRevocationStateStore();
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                    revocationStateStore: store,
+                });
+
+                await validator.validate(
+                    await createToken({ exp: futureTimestamp(3600) }),
+                );
+                expect(store.getSequence(revocationUrl)).toBe(7);
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+
+        test("warns about a list past nextUpdate", async () => {
+            const originalFetch = globalThis.fetch;
+            globalThis.fetch = vi.fn(
+                async () =>
+                    new Response(
+                        JSON.stringify({ nextUpdate: pastTimestamp(600) }),
+                    ),
+            ) as unknown as typeof fetch;
+
+            try {
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                });
+                const result = await validator.validate(
+                    await createToken({ exp: futureTimestamp(3600) }),
+                );
+                expect(result.valid).toBe(true);
+                if (result.valid) {
+                    expect(result.warnings?.[0]?.code).toBe(
+                        "REVOCATION_LIST_OUTDATED",
+                    );
+                }
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+
+        test("checks nextUpdate at the configured current time", async () => {
+            const originalFetch = globalThis.fetch;
+            globalThis.fetch = vi.fn(
+                async () =>
+                    new Response(
+                        JSON.stringify({ nextUpdate: futureTimestamp(600) }),
+                    ),
+            ) as unknown as typeof fetch;
+
+            try {
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                    timing: { currentTime: futureTimestamp(1200) },
+                });
+                const result = await validator.validate(
+                    await createToken({ exp: futureTimestamp(3600) }),
+                );
+                expect(result.valid).toBe(true);
+                if (result.valid) {
+                    expect(result.warnings?.[0]?.code).toBe(
+                        "REVOCATION_LIST_OUTDATED",
+                    );
+                }
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+
+        test("fails on a list past nextUpdate beyond maxAge", async () => {
+            const originalFetch = globalThis.fetch;
+            globalThis.fetch = vi.fn(
+                async () =>
+                    new Response(
+                        JSON.stringify({ nextUpdate: pastTimestamp(600) }),
+                    ),
+            ) as unknown as typeof fetch;
+
+            try {
+                const token = await createToken({ exp: futureTimestamp(3600) });
+                const lenient = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                    revocationFailurePolicy: { maxAge: 3600 },
+                });
+                expect((await lenient.validate(token)).valid).toBe(true);
+
+                const strict = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                    revocationFailurePolicy: { maxAge: 60 },
+                });
+                const result = await strict.validate(token);
+                expect(result.valid).toBe(false);
+                if (!result.valid) {
+                    expect(result.error.code).toBe("REVOCATION_LIST_OUTDATED");
+                }
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+    });
+
+    describe("issued-before cutoffs", () => {
+        const cutoff = pastTimestamp(3600);
+
+        test("revokes tokens issued before the global cutoff", async () => {
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+                revocation: { issuedBefore: cutoff },
+            });
+
+            const old = await validator.validate(
+                await createToken({
+                    iat: cutoff - 60,
+                    exp: futureTimestamp(3600),
+                }),
+            );
+            expect(old.valid).toBe(false);
+            if (!old.valid) {
+                expect(old.error.code).toBe("TOKEN_REVOKED");
+                expect(old.error.details).toEqual({
+                    issuedBefore: cutoff,
+                    iat: cutoff - 60,
+                    reason: "issued_before",
+                });
+            }
+
+            const fresh = await validator.validate(
+                await createToken({ iat: cutoff, exp: futureTimestamp(3600) }),
+            );
+            expect(fresh.valid).toBe(true);
+        });
+
+        test("revokes a subject's tokens issued before its cutoff", async () => {
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+                revocation: { subIssuedBefore: { acme: cutoff } },
+            });
+
+            const result = await validator.validate(
+                await createToken({
+                    sub: "acme",
+                    iat: cutoff - 60,
+                    exp: futureTimestamp(3600),
+                }),
+            );
+            expect(result.valid).toBe(false);
+            if (!result.valid) {
+                expect(result.error.details).toEqual({
+                    sub: "acme",
+                    issuedBefore: cutoff,
+                    iat: cutoff - 60,
+                    reason: "sub_issued_before",
+                });
+            }
+
+            for (const payload of [
+                { sub: "acme", iat: cutoff + 60 },
+                { sub: "other", iat: cutoff - 60 },
+                { sub: "constructor" },
+            ]) {
+                const token = await createToken({
+                    ...payload,
+                    exp: futureTimestamp(3600),
+                });
+                expect((await validator.validate(token)).valid).toBe(true);
+            }
+        });
+
+        test("revokes tokens without iat", async () => {
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+                revocation: { issuedBefore: cutoff },
+            });
+
+            const result = await validator.validate(
+                await createToken({ exp: futureTimestamp(3600) }),
+            );
+            expect(result.valid).toBe(false);
+        });
+
+        test("rejects invalid cutoffs", () => {
+            const result = parseRevocationList({
+                issuedBefore: "yesterday",
+                subIssuedBefore: { acme: -1 },
+            });
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.errors).toEqual([
+                    '"issuedBefore" must be a non-negative integer',
+                    '"subIssuedBefore.acme" must be a non-negative integer',
+                ]);
+            }
+        });
+    });
+
+    describe("revocation list deltas", () => {
+        const revocationUrl = "https://example.com/delta-revocation.json";
+        const revocationDeltaUrl = "https://example.com/delta";
+
+        /** Serve a base list and deltas from the mocked fetch */
+        function serve(
+            list: () => RevocationList | string,
+            delta: (
+                since: string | null,
+            ) => RevocationListDelta | string | null,
+        ) {
+            const mock = vi.fn(async (input: string | URL) => {
+                const url = new URL(input);
+                if (url.href === revocationUrl) {
+                    const body = list();
+                    return new Response(
+                        typeof body === "string" ? body : JSON.stringify(body),
+                    );
+                }
+                const body = delta(url.searchParams.get("since"));
+                if (body === null) {
+                    return new Response("Gone", { status: 410 });
+                }
+                return new Response(
+                    typeof body === "string" ? body : JSON.stringify(body),
+                );
+            });
+            globalThis.fetch = mock as unknown as typeof fetch;
+            return mock;
+        }
+
+        /** Count the mocked requests for a URL */
+        function requests(mock: ReturnType<typeof serve>, url: string) {
+            return mock.mock.calls.filter(([input]) =>
+                String(input).startsWith(url),
+            ).length;
+        }
+
+        test("round-trips the changes between two lists", () => {
+            const from: RevocationList = {
+                seq: 4,
+                jti: ["a", "b"],
+                keys: [{ kid: "old" }, { kid: "k1", compromisedAt: 100 }],
+                issuedBefore: 50,
+                subIssuedBefore: { acme: 10, globex: 20 },
+            };
+            const to: RevocationList = {
+                jti: ["b", "c"],
+                keys: [{ kid: "k1", compromisedAt: 200 }],
+                subIssuedBefore: { acme: 30 },
+                iat: 1000,
+                seq: 6,
+                nextUpdate: 2000,
+            };
+
+            const delta = createRevocationListDelta(from, to);
+            expect(delta).toEqual({
+                since: 4,
+                seq: 6,
+                iat: 1000,
+                nextUpdate: 2000,
+                add: {
+                    jti: ["c"],
+                    keys: [{ kid: "k1", compromisedAt: 200 }],
+                    subIssuedBefore: { acme: 30 },
+                },
+                remove: {
+                    jti: ["a"],
+                    keys: [{ kid: "old" }],
+                    issuedBefore: true,
+                    subIssuedBefore: ["globex"],
+                },
+            });
+            expect(parseRevocationListDelta(delta).success).toBe(true);
+            expect(applyRevocationListDelta(from, delta)).toEqual(to);
+        });
+
+        test("applies a delta only to the list it starts at", () => {
+            expect(() =>
+                applyRevocationListDelta(
+                    { seq: 3 },
+                    { since: 2, seq: 4, add: { jti: ["a"] } },
+                ),
+            ).toThrow("applies to sequence 2, not 3");
+        });
+
+        test("rejects invalid deltas", () => {
+            const result = parseRevocationListDelta({
+                since: 5,
+                seq: 4,
+                add: { jti: [""], seq: 1 },
+                remove: { issuedBefore: 1 },
+            });
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.errors).toEqual([
+                    '"seq" must not be smaller than "since"',
+                    'add: "jti[0]" must be a non-empty string',
+                    '"remove.issuedBefore" must be a boolean',
+                ]);
+            }
+        });
+
+        test("updates the cached list from deltas", async () => {
+            const originalFetch = globalThis.fetch;
+            const mock = serve(
+                () => ({ seq: 1, jti: ["token-1"] }),
+                (since) =>
+                    since === "1"
+                        ? {
+                              since: 1,
+                              seq: 2,
+                              add: { jti: ["token-2"] },
+                              remove: { jti: ["token-1"] },
+                          }
+                        : { since: 2, seq: 2 },
+            );
+
+            try {
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                    revocationDeltaUrl,
+                    revocationCacheTtl: 0,
+                });
+                const token1 = await createToken({
+                    jti: "token-1",
+                    exp: futureTimestamp(3600),
+                });
+                const token2 = await createToken({
+                    jti: "token-2",
+                    exp: futureTimestamp(3600),
+                });
+
+                expect((await validator.validate(token1)).valid).toBe(false);
+                expect((await validator.validate(token1)).valid).toBe(true);
+                expect((await validator.validate(token2)).valid).toBe(false);
+                expect(requests(mock, revocationUrl)).toBe(1);
+                expect(String(mock.mock.calls[1]?.[0])).toBe(
+                    `${revocationDeltaUrl}?since=1`,
+                );
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+
+        test("fetches the full list when too far behind", async () => {
+            const originalFetch = globalThis.fetch;
+            let list: RevocationList = { seq: 1, jti: [] };
+            let deltaSince = 1;
+            const mock = serve(
+                () => list,
+                () =>
+                    deltaSince === 0
+                        ? null
+                        : { since: deltaSince, seq: 9, add: { jti: ["x"] } },
+            );
+
+            try {
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                    revocationDeltaUrl,
+                    revocationCacheTtl: 0,
+                });
+                const token = await createToken({
+                    jti: "token-1",
+                    exp: futureTimestamp(3600),
+                });
+
+                expect((await validator.validate(token)).valid).toBe(true);
+
+                // The server only has changes since a later sequence
+                deltaSince = 5;
+                list = { seq: 9, jti: ["token-1"] };
+                expect((await validator.validate(token)).valid).toBe(false);
+                expect(requests(mock, revocationUrl)).toBe(2);
+
+                // The server has no delta at all
+                deltaSince = 0;
+                list = { seq: 10, jti: [] };
+                expect((await validator.validate(token)).valid).toBe(true);
+                expect(requests(mock, revocationUrl)).toBe(3);
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+
+        test("requires signed deltas for signed lists", async () => {
+            const originalFetch = globalThis.fetch;
+            const issuer = LicenseIssuer.create(TEST_REALM, { privateKey });
+            const base = await issuer.signRevocationList({ seq: 1, jti: [] });
+            const delta: RevocationListDelta = {
+                since: 1,
+                seq: 2,
+                add: { jti: ["token-1"] },
+            };
+            let signDelta = false;
+            const signedDelta = await issuer.signRevocationListDelta(delta);
+            const mock = serve(
+                () => base,
+                () => (signDelta ? signedDelta : delta),
+            );
+
+            try {
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationUrl,
+                    revocationDeltaUrl,
+                    revocationCacheTtl: 0,
+                });
+                const token = await createToken({
+                    jti: "token-1",
+                    exp: futureTimestamp(3600),
+                });
+
+                expect((await validator.validate(token)).valid).toBe(true);
+                // The unsigned delta is ignored and the base list refetched
+                expect((await validator.validate(token)).valid).toBe(true);
+                expect(requests(mock, revocationUrl)).toBe(2);
+
+                signDelta = true;
+                expect((await validator.validate(token)).valid).toBe(false);
+                expect(requests(mock, revocationUrl)).toBe(2);
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+    });
+
+    describe("revocation providers", () => {
+        /** Provider revoking subjects stored in a map, like a database */
+        function databaseProvider(revoked: Map<string, string>) {
+            return {
+                isRevoked: vi.fn(async (payload: { sub?: string }) => {
+                    const reason = payload.sub && revoked.get(payload.sub);
+                    return reason
+                        ? {
+                              revoked: true,
+                              error: {
+                                  code: "TOKEN_REVOKED" as const,
+                                  message: `Revoked: ${reason}`,
+                              },
+                          }
+                        : { revoked: false };
+                }),
+            } satisfies RevocationProvider;
+        }
+
+        test("uses a custom provider", async () => {
+            const provider = databaseProvider(new Map([["acme", "refund"]]));
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+                revocationProvider: provider,
+            });
+
+            const result = await validator.validate(
+                await createToken({ sub: "acme", exp: futureTimestamp(3600) }),
+            );
+            expect(result.valid).toBe(false);
+            if (!result.valid) {
+                expect(result.error.message).toBe("Revoked: refund");
+            }
+            expect(
+                (
+                    await validator.validate(
+                        await createToken({
+                            sub: "globex",
+                            exp: futureTimestamp(3600),
+                        }),
+                    )
+                ).valid,
+            ).toBe(true);
+            expect(provider.isRevoked).toHaveBeenCalledWith(
+                expect.objectContaining({ sub: "globex" }),
+                expect.objectContaining({
+                    realm: TEST_REALM,
+                    key: expect.objectContaining({ publicKey }),
+                }),
+            );
+        });
+
+        test("keeps the provider in bound validators", async () => {
+            const provider = databaseProvider(new Map([["acme", "refund"]]));
+            const bound = await LicenseValidator.createWithToken(
+                TEST_REALM,
+                { publicKey: publicKeyHex, revocationProvider: provider },
+                await createToken({ sub: "acme", exp: futureTimestamp(3600) }),
+            );
+            expect(bound.error?.message).toBe("Revoked: refund");
+
+            const result = await bound.unbind().validate(
+                await createToken({
+                    sub: "acme",
+                    exp: futureTimestamp(3600),
+                }),
+            );
+            expect(result.valid).toBe(false);
+            expect(provider.isRevoked).toHaveBeenCalledTimes(2);
+        });
+
+        test("combines several providers", async () => {
+            const provider = new CompositeRevocationProvider([
+                new StaticRevocationProvider({ jti: ["token-1"] }),
+                databaseProvider(new Map([["acme", "refund"]])),
+                { isRevoked: async () => ({ revoked: true }) },
+            ]);
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+                revocationProvider: provider,
+            });
+
+            const byList = await validator.validate(
+                await createToken({
+                    jti: "token-1",
+                    sub: "acme",
+                    exp: futureTimestamp(3600),
+                }),
+            );
+            const byDefault = await validator.validate(
+                await createToken({
+                    sub: "globex",
+                    exp: futureTimestamp(3600),
+                }),
+            );
+            expect(byList.valid).toBe(false);
+            expect(byDefault.valid).toBe(false);
+            if (!byList.valid && !byDefault.valid) {
+                expect(byList.error.details?.reason).toBe("jti_revoked");
+                expect(byDefault.error).toEqual({
+                    code: "TOKEN_REVOKED",
+                    message: "Token has been revoked",
+                });
+            }
+        });
+
+        test("applies the failure policy when a provider throws", async () => {
+            const revocationProvider: RevocationProvider = {
+                isRevoked: async () => {
+                    throw new Error("connection refused");
+                },
+            };
+            const token = await createToken({ exp: futureTimestamp(3600) });
+
+            const open = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+                revocationProvider,
+            });
+            const openResult = await open.validate(token);
+            expect(openResult.valid).toBe(true);
+            if (openResult.valid) {
+                expect(openResult.warnings?.[0]?.code).toBe(
+                    "REVOCATION_UNAVAILABLE",
+                );
+            }
+
+            const closed = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+                revocationProvider,
+                revocationFailurePolicy: "fail-closed",
+            });
+            const closedResult = await closed.validate(token);
+            expect(closedResult.valid).toBe(false);
+            if (!closedResult.valid) {
+                expect(closedResult.error.message).toBe(
+                    "Revocation provider is unavailable: connection refused",
+                );
+            }
+        });
+
+        test("refreshes the provider on demand", async () => {
+            const originalFetch = globalThis.fetch;
+            const mock = vi.fn(
+                async () => new Response(JSON.stringify({ jti: [] })),
+            );
+            globalThis.fetch = mock as unknown as typeof fetch;
+
+            try {
+                const validator = await LicenseValidator.create(TEST_REALM, {
+                    publicKey: publicKeyHex,
+                    revocationProvider: new CompositeRevocationProvider([
+                        new UrlRevocationProvider(
+                            "https://example.com/provider-revocation.json",
+                        ),
+                        databaseProvider(new Map()),
+                    ]),
+                });
+                expect(await validator.refreshRevocationList()).toBe(true);
+                expect(mock).toHaveBeenCalledTimes(1);
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+    });
+
+    describe("revocation reasons and suspensions", () => {
+        test("reports the reason and time of a revocation", async () => {
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+                revocation: {
+                    jti: [
+                        {
+                            id: "token-1",
+                            reason: "chargeback",
+                            revokedAt: 1000,
+                        },
+                    ],
+                },
+            });
+
+            const result = await validator.validate(
+                await createToken({
+                    jti: "token-1",
+                    exp: futureTimestamp(3600),
+                }),
+            );
+            expect(result.valid).toBe(false);
+            if (!result.valid) {
+                expect(result.error).toEqual({
+                    code: "TOKEN_REVOKED",
+                    message: "Token has been revoked (jti: token-1)",
+                    details: {
+                        jti: "token-1",
+                        reason: "jti_revoked",
+                        revocationReason: "chargeback",
+                        revokedAt: 1000,
+                    },
+                });
+            }
+        });
+
+        test("suspends tokens until the suspension lifts", async () => {
+            const until = futureTimestamp(600);
+            const config = {
+                publicKey: publicKeyHex,
+                revocation: {
+                    jti: ["token-2"],
+                    sub: [{ id: "acme", reason: "refund" as const, until }],
+                },
+            };
+            const token = await createToken({
+                jti: "token-1",
+                sub: "acme",
+                exp: futureTimestamp(3600),
+            });
+
+            const suspended = await (
+                await LicenseValidator.create(TEST_REALM, config)
+            ).validate(token);
+            expect(suspended.valid).toBe(false);
+            if (!suspended.valid) {
+                expect(suspended.error.code).toBe("TOKEN_SUSPENDED");
+                expect(suspended.error.message).toBe(
+                    `Subject is suspended until ${until} (sub: acme)`,
+                );
+                expect(suspended.error.details).toEqual({
+                    sub: "acme",
+                    reason: "sub_suspended",
+                    revocationReason: "refund",
+                    until,
+                });
+            }
+
+            const lifted = await (
+                await LicenseValidator.create(TEST_REALM, {
+                    ...config,
+                    timing: { currentTime: until },
+                })
+            ).validate(token);
+            expect(lifted.valid).toBe(true);
+        });
+
+        test("rejects invalid entry details", () => {
+            const result = parseRevocationList({
+                jti: [{ id: "", reason: "fraud", until: -1, note: "x" }],
+            });
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.errors).toEqual([
+                    '"jti[0].id" must be a non-empty string',
+                    '"jti[0].reason" must be one of refund, chargeback, key_compromise, superseded',
+                    '"jti[0].until" must be a non-negative integer',
+                    'Unknown field "jti[0].note"',
+                ]);
+            }
+        });
+
+        test("carries changed details in deltas", () => {
+            const from: RevocationList = { seq: 1, jti: ["a", "b"] };
+            const to: RevocationList = {
+                seq: 2,
+                jti: ["a", { id: "b", until: 500 }],
+            };
+
+            const delta = createRevocationListDelta(from, to);
+            expect(delta.add).toEqual({ jti: [{ id: "b", until: 500 }] });
+            expect(applyRevocationListDelta(from, delta)).toEqual(to);
+        });
+    });
+
+    describe("partial revocation", () => {
+        const token = () =>
+            createToken({
+                jti: "token-1",
+                sub: "acme",
+                exp: futureTimestamp(30 * 86400),
+                flags: ["pro", "export"],
+                features: { seats: 10, sso: true },
+            });
+
+        test("withdraws flags and features instead of revoking", async () => {
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+                revocation: {
+                    jti: [
+                        { id: "token-1", reason: "refund", flags: ["export"] },
+                    ],
+                    sub: [{ id: "acme", features: ["sso", "audit"] }],
+                },
+            });
+
+            const result = await validator.validate(await token());
+            expect(result.valid).toBe(true);
+            if (result.valid) {
+                expect(result.license.flags).toEqual(["pro"]);
+                expect(result.license.features).toEqual({ seats: 10 });
+                expect(result.warnings).toEqual([
+                    {
+                        code: "ENTITLEMENTS_WITHDRAWN",
+                        message:
+                            "Withdrawn by revocation: flags export; features sso",
+                        details: { flags: ["export"], features: ["sso"] },
+                    },
+                ]);
+            }
+        });
+
+        test("applies to hasFlag and getFeature on both validators", async () => {
+            const config = {
+                publicKey: publicKeyHex,
+                revocation: {
+                    jti: [
+                        { id: "token-1", flags: ["export"], features: ["sso"] },
+                    ],
+                },
+            };
+            const unbound = await LicenseValidator.create(TEST_REALM, config);
+            expect(await unbound.hasFlag(await token(), "export")).toEqual({
+                enabled: false,
+                reason: "not_in_license",
+            });
+            expect((await unbound.hasFlag(await token(), "pro")).enabled).toBe(
+                true,
+            );
+            expect(await unbound.getFeature(await token(), "sso")).toBeNull();
+            expect(await unbound.getFeature(await token(), "seats")).toBe(10);
+
+            const bound = await LicenseValidator.createWithToken(
+                TEST_REALM,
+                config,
+                await token(),
+            );
+            expect(bound.valid).toBe(true);
+            expect(bound.hasFlag("export")).toBe(false);
+            expect(bound.hasFlag("pro")).toBe(true);
+            expect(bound.getFeature("sso")).toBeNull();
+            expect(bound.getFeature("seats")).toBe(10);
+        });
+
+        test("checks required flags against the remaining flags", async () => {
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+                requiredFlags: ["export"],
+                revocation: { sub: [{ id: "acme", flags: ["export"] }] },
+            });
+
+            const result = await validator.validate(await token());
+            expect(result.valid).toBe(false);
+            if (!result.valid) {
+                expect(result.error.code).toBe("MISSING_REQUIRED_FLAG");
+            }
+        });
+
+        test("restores withdrawn entitlements after until", async () => {
+            const until = futureTimestamp(600);
+            const config = {
+                publicKey: publicKeyHex,
+                revocation: {
+                    jti: [{ id: "token-1", flags: ["export"], until }],
+                },
+            };
+
+            const withdrawn = await (
+                await LicenseValidator.create(TEST_REALM, config)
+            ).validate(await token());
+            expect(withdrawn.valid && withdrawn.license.flags).toEqual(["pro"]);
+
+            const restored = await (
+                await LicenseValidator.create(TEST_REALM, {
+                    ...config,
+                    timing: { currentTime: until },
+                })
+            ).validate(await token());
+            expect(restored.valid).toBe(true);
+            if (restored.valid) {
+                expect(restored.license.flags).toEqual(["pro", "export"]);
+                expect(restored.warnings).toBeUndefined();
+            }
+        });
+
+        test("does not warn when the token lacks the withdrawn items", async () => {
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+                revocation: { jti: [{ id: "token-1", flags: ["beta"] }] },
+            });
+
+            const result = await validator.validate(await token());
+            expect(result.valid).toBe(true);
+            if (result.valid) {
+                expect(result.license.flags).toEqual(["pro", "export"]);
+                expect(result.warnings).toBeUndefined();
+            }
+        });
+
+        test("merges withdrawals from custom providers", async () => {
+            const provider: RevocationProvider = {
+                isRevoked: async () => ({
+                    revoked: false,
+                    withdrawn: { features: ["seats"] },
+                }),
+            };
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+                revocationProvider: new CompositeRevocationProvider([
+                    provider,
+                    new StaticRevocationProvider({
+                        jti: [{ id: "token-1", flags: ["pro"] }],
+                    }),
+                ]),
+            });
+
+            const result = await validator.validate(await token());
+            expect(result.valid).toBe(true);
+            if (result.valid) {
+                expect(result.license.flags).toEqual(["export"]);
+                expect(result.license.features).toEqual({ sso: true });
+            }
+        });
+
+        test("rejects invalid withdrawals", () => {
+            const result = parseRevocationList({
+                jti: [{ id: "a", flags: [], features: ["sso", ""] }],
+            });
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.errors).toEqual([
+                    '"jti[0].flags" must be a non-empty array of non-empty strings',
+                    '"jti[0].features" must be a non-empty array of non-empty strings',
+                ]);
+            }
+        });
+
+        test("carries changed withdrawals in deltas", () => {
+            const from: RevocationList = {
+                seq: 1,
+                sub: [{ id: "acme", flags: ["export"] }],
+            };
+            const to: RevocationList = {
+                seq: 2,
+                sub: [{ id: "acme", flags: ["export", "pro"] }],
+            };
+
+            const delta = createRevocationListDelta(from, to);
+            expect(delta.add).toEqual({ sub: to.sub });
+            expect(applyRevocationListDelta(from, delta)).toEqual(to);
+        });
+    });
 });
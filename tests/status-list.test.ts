@@ -0,0 +1,350 @@
+/**
+ * Tests for bitstring status lists
+ */
+
+import { gunzipSync } from "node:zlib";
+import { afterEach, describe, expect, test, vi } from "vitest";
+import {
+    clearRevocationCache,
+    LicenseIssuer,
+    LicenseValidator,
+    StatusList,
+} from "../src/index.ts";
+import { fetchStatusList } from "../src/revocation/index.ts";
+import {
+    createToken,
+    futureTimestamp,
+    privateKey,
+    publicKeyHex,
+    TEST_REALM,
+} from "./helpers.ts";
+
+const url = "https://example.com/status/1";
+
+afterEach(() => {
+    clearRevocationCache();
+});
+
+/** Serve a status list document from the mocked fetch */
+async function serveStatusList(list: StatusList) {
+    return serveBody(JSON.stringify(await list.toDocument()));
+}
+
+/** Serve a response body from the mocked fetch */
+function serveBody(body: string) {
+    const mock = vi.fn(async () => new Response(body));
+    globalThis.fetch = mock as unknown as typeof fetch;
+    return mock;
+}
+
+/** Create a token referencing an index in the test status list */
+function createStatusToken(index: number) {
+    return createToken({
+        sub: "user",
+        exp: futureTimestamp(3600),
+        status: { url, index },
+    });
+}
+
+describe("status list", () => {
+    test("round-trips revoked bits", async () => {
+        const list = StatusList.create(1024);
+        list.setRevoked(3);
+        list.setRevoked(1000);
+        list.setRevoked(1000, false);
+        list.setRevoked(1023);
+
+        const decoded = await StatusList.fromDocument(await list.toDocument());
+        expect(decoded.size).toBe(1024);
+        expect(decoded.isRevoked(3)).toBe(true);
+        expect(decoded.isRevoked(1000)).toBe(false);
+        expect(decoded.isRevoked(1023)).toBe(true);
+        expect(decoded.isRevoked(0)).toBe(false);
+    });
+
+    test("numbers bits from the most significant bit of the first byte", async () => {
+        const list = StatusList.create(16);
+        list.setRevoked(0);
+        list.setRevoked(9);
+
+        const { encodedList } = await list.toDocument();
+        const bits = gunzipSync(Buffer.from(encodedList, "base64url"));
+        expect([...bits]).toEqual([0x80, 0x40]);
+    });
+
+    test("rejects indexes outside the list and invalid sizes", () => {
+        const list = StatusList.create(8);
+        expect(() => list.isRevoked(8)).toThrow("out of range (size 8)");
+        expect(() => list.setRevoked(-1)).toThrow("out of range");
+        expect(() => StatusList.create(0)).toThrow("Invalid status list size");
+    });
+
+    test("round-trips the sequence number", async () => {
+        const list = StatusList.create(8);
+        list.seq = 3;
+        const document = await list.toDocument();
+        expect(document.seq).toBe(3);
+        expect((await StatusList.fromDocument(document)).seq).toBe(3);
+
+        await expect(
+            StatusList.fromDocument({ ...document, seq: -1 }),
+        ).rejects.toThrow("seq must be a non-negative integer");
+    });
+
+    test("rejects documents that are not gzip-compressed", async () => {
+        await expect(
+            StatusList.fromDocument({
+                encodedList: Buffer.from("plain").toString("base64url"),
+            }),
+        ).rejects.toThrow("Invalid status list");
+    });
+});
+
+describe("status list validation", () => {
+    test("rejects tokens whose bit is set", async () => {
+        const originalFetch = globalThis.fetch;
+        const list = StatusList.create();
+        list.setRevoked(42);
+        await serveStatusList(list);
+
+        try {
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+            });
+
+            const result = await validator.validate(
+                await createStatusToken(42),
+            );
+            expect(result.valid).toBe(false);
+            if (!result.valid) {
+                expect(result.error.code).toBe("TOKEN_REVOKED");
+                expect(result.error.details).toEqual({
+                    statusList: url,
+                    index: 42,
+                    reason: "status_revoked",
+                });
+            }
+
+            expect(
+                (await validator.validate(await createStatusToken(43))).valid,
+            ).toBe(true);
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+
+    test("fetches each status list once within the TTL", async () => {
+        const originalFetch = globalThis.fetch;
+        const mock = await serveStatusList(StatusList.create());
+
+        try {
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+            });
+            for (const index of [1, 2, 3]) {
+                await validator.validate(await createStatusToken(index));
+            }
+            expect(mock).toHaveBeenCalledTimes(1);
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+
+    test("shares fetched status lists read-only", async () => {
+        const originalFetch = globalThis.fetch;
+        const list = StatusList.create(16);
+        list.setRevoked(3);
+        list.seq = 2;
+        await serveStatusList(list);
+
+        try {
+            const { value } = await fetchStatusList(url);
+            expect(Object.isFrozen(value)).toBe(true);
+            expect(value).not.toHaveProperty("setRevoked");
+            expect(value.seq).toBe(2);
+            expect(value.size).toBe(16);
+            expect(value.isRevoked(3)).toBe(true);
+            expect(value.isRevoked(4)).toBe(false);
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+
+    test("rejects indexes outside the list", async () => {
+        const originalFetch = globalThis.fetch;
+        await serveStatusList(StatusList.create(8));
+
+        try {
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+            });
+            const result = await validator.validate(await createStatusToken(8));
+            expect(result.valid).toBe(false);
+            if (!result.valid) {
+                expect(result.error.code).toBe("INVALID_PAYLOAD");
+            }
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+
+    test("rejects malformed status claims", async () => {
+        const validator = await LicenseValidator.create(TEST_REALM, {
+            publicKey: publicKeyHex,
+        });
+        const token = await createToken({
+            exp: futureTimestamp(3600),
+            status: { url: "file:///etc/passwd", index: 1 },
+        });
+
+        const result = await validator.validate(token);
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+            expect(result.error.code).toBe("INVALID_PAYLOAD");
+            expect(result.error.message).toContain("status.url");
+        }
+    });
+
+    test("applies the failure policy when the list is unavailable", async () => {
+        const originalFetch = globalThis.fetch;
+        globalThis.fetch = vi.fn(
+            async () => new Response("Unavailable", { status: 503 }),
+        ) as unknown as typeof fetch;
+
+        try {
+            const token = await createStatusToken(1);
+            const open = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+            });
+            const openResult = await open.validate(token);
+            expect(openResult.valid).toBe(true);
+            if (openResult.valid) {
+                expect(openResult.warnings?.[0]?.code).toBe(
+                    "REVOCATION_UNAVAILABLE",
+                );
+            }
+
+            const closed = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+                revocationFailurePolicy: "fail-closed",
+            });
+            const closedResult = await closed.validate(token);
+            expect(closedResult.valid).toBe(false);
+            if (!closedResult.valid) {
+                expect(closedResult.error.code).toBe("REVOCATION_UNAVAILABLE");
+                expect(closedResult.error.message).toContain(
+                    "Status list is unavailable",
+                );
+            }
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+
+    test("verifies signed status lists with the trusted keys and realm", async () => {
+        const originalFetch = globalThis.fetch;
+        const list = StatusList.create();
+        list.setRevoked(42);
+        const issuer = LicenseIssuer.create(TEST_REALM, { privateKey });
+        serveBody(await issuer.signStatusList(list));
+
+        try {
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+                revocationRequireSignature: true,
+            });
+            const result = await validator.validate(
+                await createStatusToken(42),
+            );
+            expect(result.valid).toBe(false);
+            if (!result.valid) {
+                expect(result.error.code).toBe("TOKEN_REVOKED");
+            }
+
+            clearRevocationCache();
+            const otherRealm = LicenseIssuer.create("other-app", {
+                privateKey,
+            });
+            serveBody(await otherRealm.signStatusList(list));
+            const closed = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+                revocationFailurePolicy: "fail-closed",
+            });
+            const otherResult = await closed.validate(
+                await createStatusToken(1),
+            );
+            expect(otherResult.valid).toBe(false);
+            if (!otherResult.valid) {
+                expect(otherResult.error.code).toBe("REVOCATION_UNAVAILABLE");
+                expect(otherResult.error.message).toContain(
+                    "issued for realm other-app",
+                );
+            }
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+
+    test("refuses unsigned status lists when signatures are required", async () => {
+        const originalFetch = globalThis.fetch;
+        await serveStatusList(StatusList.create());
+
+        try {
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+                revocationRequireSignature: true,
+                revocationFailurePolicy: "fail-closed",
+            });
+            const result = await validator.validate(await createStatusToken(1));
+            expect(result.valid).toBe(false);
+            if (!result.valid) {
+                expect(result.error.code).toBe("REVOCATION_UNAVAILABLE");
+                expect(result.error.message).toContain(
+                    "Status list is not signed",
+                );
+            }
+
+            // A list cached for a validator without the requirement is refused too
+            clearRevocationCache();
+            const lenient = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+            });
+            await lenient.validate(await createStatusToken(1));
+            const cachedResult = await validator.validate(
+                await createStatusToken(1),
+            );
+            expect(cachedResult.valid).toBe(false);
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+
+    test("refuses status lists older than the newest one seen", async () => {
+        const originalFetch = globalThis.fetch;
+        const list = StatusList.create();
+        list.setRevoked(1);
+        list.seq = 2;
+        await serveStatusList(list);
+
+        try {
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKey: publicKeyHex,
+                statusListCacheTtl: 0,
+            });
+            const token = await createStatusToken(1);
+            expect((await validator.validate(token)).valid).toBe(false);
+
+            const older = StatusList.create();
+            older.seq = 1;
+            const mock = await serveStatusList(older);
+            const result = await validator.validate(token);
+            expect(mock).toHaveBeenCalledTimes(1);
+            expect(result.valid).toBe(false);
+            if (!result.valid) {
+                expect(result.error.code).toBe("TOKEN_REVOKED");
+            }
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+});
@@ -2,8 +2,15 @@
  * Tests for public key URL fetching
  */
 
-import { describe, expect, test, vi } from "vitest";
-import { LicenseValidator } from "../src/index.ts";
+import { afterEach, describe, expect, test, vi } from "vitest";
+import {
+    clearPublicKeyCache,
+    generateKeyPair,
+    getKeyFingerprint,
+    KeyPinMismatchError,
+    LicenseValidator,
+} from "../src/index.ts";
+import { bytesToHex } from "../src/utils/keys.ts";
 import {
     createToken,
     futureTimestamp,
@@ -11,6 +18,10 @@ import {
     TEST_REALM,
 } from "./helpers.ts";
 
+afterEach(() => {
+    clearPublicKeyCache();
+});
+
 describe("public key from URL", () => {
     test("creates validator from URL", async () => {
         // Mock fetch to return the public key
@@ -110,3 +121,263 @@ describe("public key from URL", () => {
         }
     });
 });
+
+describe("public key cache", () => {
+    const url = "https://example.com/cached-key";
+
+    test("reuses a fetched key within the TTL", async () => {
+        const originalFetch = globalThis.fetch;
+        const mock = vi.fn(async () => new Response(publicKeyHex));
+        globalThis.fetch = mock as unknown as typeof fetch;
+
+        try {
+            await LicenseValidator.create(TEST_REALM, { publicKeyUrl: url });
+            await LicenseValidator.create(TEST_REALM, { publicKeyUrl: url });
+            expect(mock).toHaveBeenCalledTimes(1);
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+
+    test("revalidates expired keys with If-None-Match", async () => {
+        const originalFetch = globalThis.fetch;
+        const mock = vi.fn(async (_url: string, init?: RequestInit) => {
+            const headers = new Headers(init?.headers);
+            if (headers.get("If-None-Match") === '"v1"') {
+                return new Response(null, { status: 304 });
+            }
+            return new Response(publicKeyHex, { headers: { ETag: '"v1"' } });
+        });
+        globalThis.fetch = mock as unknown as typeof fetch;
+
+        try {
+            const config = { publicKeyUrl: url, publicKeyCacheTtl: 0 };
+            await LicenseValidator.create(TEST_REALM, config);
+            const validator = await LicenseValidator.create(TEST_REALM, config);
+
+            expect(mock).toHaveBeenCalledTimes(2);
+            const token = await createToken({ exp: futureTimestamp(3600) });
+            const result = await validator.validate(token);
+            expect(result.valid).toBe(true);
+            if (result.valid) {
+                expect(
+                    result.warnings?.map((warning) => warning.code),
+                ).not.toContain("STALE_PUBLIC_KEY");
+            }
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+
+    test("honors Cache-Control max-age over the TTL", async () => {
+        const originalFetch = globalThis.fetch;
+        const mock = vi.fn(
+            async () =>
+                new Response(publicKeyHex, {
+                    headers: { "Cache-Control": "public, max-age=600" },
+                }),
+        );
+        globalThis.fetch = mock as unknown as typeof fetch;
+
+        try {
+            const config = { publicKeyUrl: url, publicKeyCacheTtl: 0 };
+            await LicenseValidator.create(TEST_REALM, config);
+            await LicenseValidator.create(TEST_REALM, config);
+            expect(mock).toHaveBeenCalledTimes(1);
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+
+    test("does not store responses marked no-store", async () => {
+        const originalFetch = globalThis.fetch;
+        const mock = vi.fn(
+            async () =>
+                new Response(publicKeyHex, {
+                    headers: { "Cache-Control": "no-store" },
+                }),
+        );
+        globalThis.fetch = mock as unknown as typeof fetch;
+
+        try {
+            await LicenseValidator.create(TEST_REALM, { publicKeyUrl: url });
+            await LicenseValidator.create(TEST_REALM, { publicKeyUrl: url });
+            expect(mock).toHaveBeenCalledTimes(2);
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+
+    test("serves the last good key with a warning when refresh fails", async () => {
+        const originalFetch = globalThis.fetch;
+        let available = true;
+        globalThis.fetch = vi.fn(async () =>
+            available
+                ? new Response(publicKeyHex)
+                : new Response("Unavailable", {
+                      status: 503,
+                      statusText: "Service Unavailable",
+                  }),
+        ) as unknown as typeof fetch;
+
+        try {
+            const config = { publicKeyUrl: url, publicKeyCacheTtl: 0 };
+            await LicenseValidator.create(TEST_REALM, config);
+            available = false;
+            const validator = await LicenseValidator.create(TEST_REALM, config);
+
+            const token = await createToken({ exp: futureTimestamp(3600) });
+            const result = await validator.validate(token);
+            expect(result.valid).toBe(true);
+            if (result.valid) {
+                expect(result.warnings?.[0]?.code).toBe("STALE_PUBLIC_KEY");
+                expect(result.warnings?.[0]?.details?.error).toBe(
+                    "503 Service Unavailable",
+                );
+            }
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+
+    test("keeps the last good key when the fetched key is invalid", async () => {
+        const originalFetch = globalThis.fetch;
+        let body = publicKeyHex;
+        globalThis.fetch = vi.fn(
+            async () => new Response(body),
+        ) as unknown as typeof fetch;
+
+        try {
+            const config = { publicKeyUrl: url, publicKeyCacheTtl: 0 };
+            await LicenseValidator.create(TEST_REALM, config);
+            body = "not a key";
+            const validator = await LicenseValidator.create(TEST_REALM, config);
+
+            const token = await createToken({ exp: futureTimestamp(3600) });
+            const result = await validator.validate(token);
+            expect(result.valid).toBe(true);
+            if (result.valid) {
+                expect(result.warnings?.[0]?.code).toBe("STALE_PUBLIC_KEY");
+            }
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+
+    test("clears cached keys", async () => {
+        const originalFetch = globalThis.fetch;
+        const mock = vi.fn(async () => new Response(publicKeyHex));
+        globalThis.fetch = mock as unknown as typeof fetch;
+
+        try {
+            await LicenseValidator.create(TEST_REALM, { publicKeyUrl: url });
+            clearPublicKeyCache(url);
+            await LicenseValidator.create(TEST_REALM, { publicKeyUrl: url });
+            expect(mock).toHaveBeenCalledTimes(2);
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+});
+
+describe("public key pinning", () => {
+    const url = "https://example.com/pinned-key";
+
+    test("computes SHA-256 fingerprints in hex and base64url", async () => {
+        const hex = await getKeyFingerprint(publicKeyHex);
+        expect(hex).toMatch(/^[0-9a-f]{64}$/);
+
+        const digest = new Uint8Array(
+            await crypto.subtle.digest(
+                "SHA-256",
+                Buffer.from(publicKeyHex, "hex"),
+            ),
+        );
+        expect(hex).toBe(bytesToHex(digest));
+        expect(await getKeyFingerprint(publicKeyHex, "base64url")).toBe(
+            Buffer.from(digest).toString("base64url"),
+        );
+    });
+
+    test("accepts a key matching a pin", async () => {
+        const originalFetch = globalThis.fetch;
+        globalThis.fetch = vi.fn(
+            async () => new Response(publicKeyHex),
+        ) as unknown as typeof fetch;
+
+        try {
+            const { publicKey: otherKey } = await generateKeyPair();
+            const validator = await LicenseValidator.create(TEST_REALM, {
+                publicKeyUrl: url,
+                publicKeyPins: [
+                    await getKeyFingerprint(otherKey),
+                    await getKeyFingerprint(publicKeyHex, "base64url"),
+                ],
+            });
+
+            const token = await createToken({ exp: futureTimestamp(3600) });
+            expect((await validator.validate(token)).valid).toBe(true);
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+
+    test("refuses a key that matches no pin", async () => {
+        const originalFetch = globalThis.fetch;
+        const { publicKey: attackerKey } = await generateKeyPair();
+        globalThis.fetch = vi.fn(
+            async () => new Response(bytesToHex(attackerKey)),
+        ) as unknown as typeof fetch;
+
+        try {
+            const promise = LicenseValidator.create(TEST_REALM, {
+                publicKeyUrl: url,
+                publicKeyPins: [await getKeyFingerprint(publicKeyHex)],
+            });
+            await expect(promise).rejects.toBeInstanceOf(KeyPinMismatchError);
+            await expect(promise).rejects.toThrow(
+                await getKeyFingerprint(attackerKey),
+            );
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+
+    test("checks pins against cached keys", async () => {
+        const originalFetch = globalThis.fetch;
+        const { publicKey: attackerKey } = await generateKeyPair();
+        globalThis.fetch = vi.fn(
+            async () => new Response(bytesToHex(attackerKey)),
+        ) as unknown as typeof fetch;
+
+        try {
+            await LicenseValidator.create(TEST_REALM, { publicKeyUrl: url });
+            await expect(
+                LicenseValidator.create(TEST_REALM, {
+                    publicKeyUrl: url,
+                    publicKeyPins: [await getKeyFingerprint(publicKeyHex)],
+                }),
+            ).rejects.toBeInstanceOf(KeyPinMismatchError);
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+
+    test("rejects malformed pins", async () => {
+        const originalFetch = globalThis.fetch;
+        globalThis.fetch = vi.fn(
+            async () => new Response(publicKeyHex),
+        ) as unknown as typeof fetch;
+
+        try {
+            await expect(
+                LicenseValidator.create(TEST_REALM, {
+                    publicKeyUrl: url,
+                    publicKeyPins: ["abc"],
+                }),
+            ).rejects.toThrow("Invalid key pin");
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
+});